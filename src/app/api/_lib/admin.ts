@@ -0,0 +1,152 @@
+/**
+ * Admin API access and redaction
+ *
+ * The admin routes (/api/admin/*) are off in production unless ADMIN_API=true, and on
+ * elsewhere unless ADMIN_API=false. Every request needs `Authorization: Bearer <token>` where
+ * the token is either
+ * - ADMIN_TOKEN: full access to every intent, or
+ * - a session from POST /api/admin/session, issued to an owner of a multisig key who signed a
+ *   proposal challenge (see proposer.ts). Sessions only see their account's intents and expire
+ *   after SESSION_TTL_MS.
+ *
+ * Responses redact collected signatures and calldata unless the caller asks for them with
+ * `?reveal=signatures,calldata`. The webhook routes (/api/webhooks) use the same tokens, and
+ * the public intent routes only reveal signatures to them (see publicRedaction).
+ */
+import type { Hex } from 'viem';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { Failure } from './errors';
+import type { SerializedIntent } from './serialize';
+import type { Intent } from './store';
+import type { Webhook } from './webhooks';
+
+export type AdminScope = {
+  actor: string;               // 'admin' for ADMIN_TOKEN, the owner keyHash for sessions
+  account?: Hex;               // sessions only see this account (and chain)
+  chainId?: number;
+};
+
+type Session = Required<AdminScope> & { expiresAt: number };
+
+export const REDACTABLE = ['signatures', 'calldata'] as const;
+export type RedactableField = (typeof REDACTABLE)[number];
+
+const SESSION_TTL_MS = 15 * 60 * 1000;
+const REDACTED = '[redacted]';
+
+const sessions = (() => {
+  const g = globalThis as unknown as { adminSessions?: Map<string, Session> };
+  g.adminSessions ??= new Map();
+  return g.adminSessions;
+})();
+
+/**
+ * Whether the admin API is served at all
+ */
+export const adminEnabled = () =>
+  process.env.ADMIN_API ? process.env.ADMIN_API === 'true' : process.env.NODE_ENV !== 'production';
+
+// Compares digests so neither length nor content leaks through timing
+const sameToken = (a: string, b: string) =>
+  timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+
+/**
+ * Resolves the caller of an admin request
+ *
+ * @param req The incoming request
+ * @returns The caller's scope, or a Failure (with HTTP status)
+ */
+export function authorizeAdmin(req: Request): AdminScope | Failure {
+  if (!adminEnabled()) return { error: 'Admin API is disabled (ADMIN_API)', code: 'FEATURE_DISABLED', status: 404 };
+
+  const token = req.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) return { error: 'Missing bearer token', code: 'UNAUTHORIZED', status: 401 };
+
+  if (process.env.ADMIN_TOKEN && sameToken(token, process.env.ADMIN_TOKEN)) return { actor: 'admin' };
+
+  const session = sessions.get(token);
+  if (!session || session.expiresAt <= Date.now()) {
+    sessions.delete(token);
+    return { error: 'Invalid or expired token', code: 'UNAUTHORIZED', status: 401 };
+  }
+  return { actor: session.actor, account: session.account, chainId: session.chainId };
+}
+
+/**
+ * Opens an admin session for an authenticated owner
+ *
+ * @param scope Owner keyHash plus the account and chain it owns a multisig key of
+ * @returns The bearer token and its expiry (ms)
+ */
+export function openSession(scope: Required<AdminScope>) {
+  const now = Date.now();
+  for (const [k, s] of sessions) if (s.expiresAt <= now) sessions.delete(k);
+
+  const token = randomBytes(32).toString('hex');
+  const expiresAt = now + SESSION_TTL_MS;
+  sessions.set(token, { ...scope, expiresAt });
+  return { token, expiresAt };
+}
+
+/**
+ * Whether an intent is visible to the caller
+ */
+export const inScope = (scope: AdminScope, intent: Intent) =>
+  !scope.account || (scope.account.toLowerCase() === intent.account.toLowerCase() && scope.chainId === intent.chainId);
+
+/**
+ * Whether a webhook subscription is visible to the caller: sessions only see the ones limited
+ * to their own account and chain
+ */
+export const webhookInScope = (scope: AdminScope, hook: Pick<Webhook, 'account' | 'chainId'>) =>
+  !scope.account || (hook.account?.toLowerCase() === scope.account.toLowerCase() && hook.chainId === scope.chainId);
+
+/**
+ * Fields the caller asked to see unredacted
+ *
+ * @param url Request URL with an optional `reveal` list
+ * @returns The fields to redact
+ */
+export const redactedFields = (url: URL): RedactableField[] => {
+  const reveal = (url.searchParams.get('reveal') ?? '').split(',');
+  return REDACTABLE.filter((f) => !reveal.includes(f));
+};
+
+/**
+ * Fields to redact on the public intent routes
+ *
+ * Reviewing and signing an intent never needs the other owners' signatures, so anonymous
+ * callers don't get them. An admin token (or a session for the intent's account) reveals the
+ * fields it lists in `reveal`.
+ *
+ * @param req The incoming request (Authorization header and `reveal` query)
+ * @param intent The intent being served
+ * @param fields What anonymous callers don't see (default: signatures)
+ * @returns The fields to redact for this caller
+ */
+export function publicRedaction(req: Request, intent: Intent, fields: RedactableField[] = ['signatures']) {
+  const scope = req.headers.has('authorization') ? authorizeAdmin(req) : undefined;
+  if (!scope || 'error' in scope || !inScope(scope, intent)) return fields;
+  const redacted = redactedFields(new URL(req.url));
+  return fields.filter((f) => redacted.includes(f));
+}
+
+/**
+ * Blanks out collected signatures and/or calldata of a serialized intent
+ *
+ * Signer key hashes and call targets/values stay visible.
+ *
+ * @param intent Serialized intent
+ * @param fields Fields to redact
+ * @returns The redacted copy
+ */
+export function redactIntent(intent: SerializedIntent, fields: RedactableField[]) {
+  const out = { ...intent };
+  if (fields.includes('signatures')) {
+    out.signatures = intent.signatures.map((s) => ({ ...s, sig: REDACTED as Hex }));
+  }
+  if (fields.includes('calldata')) {
+    out.calls = intent.calls.map((c) => ({ ...c, data: REDACTED as Hex, abi: undefined }));
+  }
+  return out;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Hex, concatHex, decodeAbiParameters, keccak256, sha256, size, slice, toHex } from 'viem';
+import { aggregateSignatures, encodeOwnerSignatures, selectSignatures, signingDigest, type OwnerSignature } from './aggregate';
+
+const EXTERNAL_KEY_HASH = keccak256(toHex('multisig key'));
+const DIGEST = keccak256(toHex('intent digest'));
+
+// Owner key hashes in ascending order, so index order is encoding order
+const [A, B, C, D] = ['0x11', '0x22', '0x33', '0x44'].map((b) => `${b}${'00'.repeat(31)}` as Hex);
+
+// A wrapped owner signature (`inner ‖ keyHash ‖ prehash`) naming `keyHash`
+const wrapped = (keyHash: Hex, seed = 1): Hex => concatHex([keccak256(toHex(seed)), keccak256(toHex(seed + 1)), keyHash, '0x00']);
+const sigOf = (ownerKeyHash: Hex, seed = 1): OwnerSignature => ({ ownerKeyHash, sig: wrapped(ownerKeyHash, seed) });
+
+// Splits the aggregated signature back into abi.decode(bytes[]), the key hash and the prehash byte
+const unwrap = (signature: Hex) => ({
+  ownerSigs: decodeAbiParameters([{ type: 'bytes[]' }], slice(signature, 0, size(signature) - 33))[0],
+  keyHash: slice(signature, -33, -1),
+  prehash: slice(signature, -1),
+});
+
+describe('selectSignatures', () => {
+  it('orders signatures by owner key hash, whatever order they were collected in', () => {
+    const selected = selectSignatures([sigOf(C), sigOf(A), sigOf(B)], [A, B, C], 3);
+    expect(selected.map((s) => s.ownerKeyHash)).toEqual([A, B, C]);
+  });
+
+  it('keeps one signature per owner, the first collected', () => {
+    const first = sigOf(A, 1);
+    const selected = selectSignatures([first, sigOf(A, 7), sigOf(B)], [A, B], 2);
+    expect(selected).toEqual([first, sigOf(B)]);
+  });
+
+  it('matches owners case-insensitively', () => {
+    const upper = A.toUpperCase().replace('0X', '0x') as Hex;
+    expect(selectSignatures([sigOf(A)], [upper], 1)).toHaveLength(1);
+  });
+
+  it('drops signatures from key hashes that are not current owners', () => {
+    const selected = selectSignatures([sigOf(A), sigOf(D)], [A, B], 2);
+    expect(selected.map((s) => s.ownerKeyHash)).toEqual([A]);
+  });
+
+  it('drops signatures whose wrapped key hash is not the owner they are stored under', () => {
+    const forged = { ownerKeyHash: A, sig: wrapped(B) };
+    expect(selectSignatures([forged], [A, B], 1)).toEqual([]);
+  });
+
+  it('drops signatures too short to name a key hash', () => {
+    expect(selectSignatures([{ ownerKeyHash: A, sig: '0x00' }], [A], 1)).toEqual([]);
+  });
+
+  it('uses only the `threshold` lowest key hashes when more owners signed', () => {
+    const selected = selectSignatures([sigOf(D), sigOf(B), sigOf(C), sigOf(A)], [A, B, C, D], 2);
+    expect(selected.map((s) => s.ownerKeyHash)).toEqual([A, B]);
+  });
+});
+
+describe('aggregateSignatures', () => {
+  const input = { externalKeyHash: EXTERNAL_KEY_HASH, owners: [A, B, C], threshold: 2 };
+
+  it('is incomplete one signature below the threshold', () => {
+    const result = aggregateSignatures({ ...input, signatures: [sigOf(B)] });
+    expect(result.complete).toBe(false);
+    expect(result.signers).toEqual([B]);
+  });
+
+  it('is complete at exactly the threshold', () => {
+    const result = aggregateSignatures({ ...input, signatures: [sigOf(C), sigOf(A)] });
+    expect(result.complete).toBe(true);
+    expect(result.signers).toEqual([A, C]);
+  });
+
+  it('stays at the threshold when every owner signed', () => {
+    const result = aggregateSignatures({ ...input, signatures: [sigOf(C), sigOf(B), sigOf(A)] });
+    expect(result.complete).toBe(true);
+    expect(result.signers).toEqual([A, B]);
+  });
+
+  it('does not count non-owner or duplicate signatures towards the threshold', () => {
+    const result = aggregateSignatures({ ...input, signatures: [sigOf(A), sigOf(A, 5), sigOf(D)] });
+    expect(result.complete).toBe(false);
+    expect(result.signers).toEqual([A]);
+  });
+
+  it('is never complete with a threshold of zero', () => {
+    expect(aggregateSignatures({ ...input, threshold: 0, signatures: [sigOf(A)] }).complete).toBe(false);
+  });
+
+  it('encodes abi.encode(bytes[]) of the selected signatures, then the key hash and a 0x00 prehash byte', () => {
+    const signatures = [sigOf(B, 3), sigOf(A, 9)];
+    const { signature } = aggregateSignatures({ ...input, signatures });
+    const parts = unwrap(signature);
+
+    expect(parts.ownerSigs).toEqual([signatures[1].sig, signatures[0].sig]);
+    expect(parts.keyHash).toBe(EXTERNAL_KEY_HASH);
+    expect(parts.prehash).toBe('0x00');
+    expect(signature).toBe(concatHex([encodeOwnerSignatures([signatures[1], signatures[0]]), EXTERNAL_KEY_HASH, '0x00']));
+  });
+
+  it('sets the prehash byte for prehashed intents', () => {
+    const { signature } = aggregateSignatures({ ...input, prehash: true, signatures: [sigOf(A), sigOf(B)] });
+    expect(unwrap(signature).prehash).toBe('0x01');
+    expect(unwrap(signature).keyHash).toBe(EXTERNAL_KEY_HASH);
+  });
+
+  it('encodes an empty bytes[] when nothing can be used', () => {
+    const { signature } = aggregateSignatures({ ...input, signatures: [] });
+    expect(unwrap(signature).ownerSigs).toEqual([]);
+  });
+});
+
+describe('signingDigest', () => {
+  it('is the digest itself unless the intent is prehashed', () => {
+    expect(signingDigest({ digest: DIGEST })).toBe(DIGEST);
+    expect(signingDigest({ digest: DIGEST, prehash: true })).toBe(sha256(DIGEST));
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Multisig signature aggregation
+ *
+ * Pure functions (no store, no RPC) that turn collected owner signatures into the multisig
+ * key's signature:
+ * - a signature counts when it comes from a current owner and the key hash wrapped inside it
+ *   is the owner it was stored under; one per owner;
+ * - of those, the `threshold` with the lowest owner key hashes are used, in ascending key hash
+ *   order, so the payload doesn't depend on who signed first and carries nothing the
+ *   MultisigSigner doesn't need;
+ * - the outer prehash byte is the intent's own (owners then sign sha256(digest)).
+ *
+ * encodeOwnerSignatures(selectSignatures(...)) is exactly the `signature` argument of
+ * MultisigSigner.isValidSignatureWithKeyHash(signingDigest(intent), externalKeyHash, ·).
+ */
+import { Hex, concatHex, encodeAbiParameters, sha256, size, slice } from 'viem';
+
+export type OwnerSignature = { ownerKeyHash: Hex; sig: Hex };
+
+export type AggregationInput = {
+  externalKeyHash: Hex;
+  threshold: number;
+  owners: Hex[];
+  signatures: OwnerSignature[];
+  prehash?: boolean;
+};
+
+export type Aggregation = {
+  signature: Hex;              // abi.encodePacked(abi.encode(bytes[]), externalKeyHash, prehash)
+  signers: Hex[];              // owner key hashes used, in encoding order
+  complete: boolean;           // signers.length === threshold
+};
+
+/**
+ * The digest owners sign for an intent
+ *
+ * @param intent Digest and prehash flag
+ * @returns sha256(digest) when the intent is prehashed, else the digest itself
+ */
+export const signingDigest = ({ digest, prehash }: { digest: Hex; prehash?: boolean }): Hex =>
+  prehash ? sha256(digest) : digest;
+
+// The key hash a wrapped Porto signature names (`inner ‖ keyHash ‖ prehash`)
+const wrappedKeyHash = (sig: Hex) => (size(sig) > 33 ? slice(sig, -33, -1).toLowerCase() : undefined);
+
+/**
+ * Picks the owner signatures to aggregate
+ *
+ * @param signatures Collected signatures, in any order
+ * @param owners Current owner key hashes
+ * @param threshold Signatures required
+ * @returns At most `threshold` signatures, sorted by owner key hash
+ */
+export function selectSignatures(signatures: OwnerSignature[], owners: Hex[], threshold: number): OwnerSignature[] {
+  const current = new Set(owners.map((k) => k.toLowerCase()));
+  const byOwner = new Map<string, OwnerSignature>();
+  for (const s of signatures) {
+    const owner = s.ownerKeyHash.toLowerCase();
+    if (!current.has(owner) || byOwner.has(owner) || wrappedKeyHash(s.sig) !== owner) continue;
+    byOwner.set(owner, s);
+  }
+  return [...byOwner.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .slice(0, Math.max(threshold, 0))
+    .map(([, s]) => s);
+}
+
+/**
+ * The MultisigSigner's inner signature
+ *
+ * @param signatures Owner signatures, already selected and ordered
+ * @returns abi.encode(bytes[] ownerSigs)
+ */
+export const encodeOwnerSignatures = (signatures: OwnerSignature[]): Hex =>
+  encodeAbiParameters([{ type: 'bytes[]' }], [signatures.map((s) => s.sig)]);
+
+/**
+ * The multisig key's signature over the intent digest, as the account unwraps it
+ *
+ * @param input Multisig key, its config, collected signatures and the prehash flag
+ * @returns The wrapped signature, the owners it uses and whether it meets the threshold
+ */
+export function aggregateSignatures(input: AggregationInput): Aggregation {
+  const selected = selectSignatures(input.signatures, input.owners, input.threshold);
+  return {
+    signature: concatHex([encodeOwnerSignatures(selected), input.externalKeyHash, input.prehash ? '0x01' : '0x00']),
+    signers: selected.map((s) => s.ownerKeyHash),
+    complete: input.threshold > 0 && selected.length === input.threshold,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Multisig config re-validation
+ *
+ * Intents snapshot owners and threshold from getConfig when they are proposed, but owners can
+ * be removed and the threshold raised while signatures are still being collected. Sign and
+ * submit re-read getConfig and bring the snapshot up to date: signatures from owners that are
+ * no longer in the config are dropped (the MultisigSigner would reject them), and a removal or
+ * a raised threshold is recorded as `configDrift` so the UI can say why the intent is no
+ * longer ready.
+ *
+ * Owners are only ever read from the chain's own MultisigSigner deployment: any other contract's
+ * getConfig could name anyone as an owner.
+ */
+import { Hex } from 'viem';
+import { getChainConfig } from '@/lib/chains';
+import { readMultisigConfig } from './create';
+import { getIntent, logEvent, updateIntent, type ConfigDrift, type Intent } from './store';
+import type { Failure } from './errors';
+import type { ChainClients } from './viem';
+
+const includes = (keys: Hex[], k: Hex) => keys.some((x) => x.toLowerCase() === k.toLowerCase());
+const union = (a: Hex[], b: Hex[]) => [...a, ...b.filter((k) => !includes(a, k))];
+const short = (k: Hex) => `${k.slice(0, 10)}…`;
+
+/**
+ * MultisigSigner an intent's owners are read from
+ *
+ * @param intent The intent
+ * @returns The chain's deployment, or a Failure when the chain has none or the intent names another contract
+ */
+export function intentMultisig(intent: Pick<Intent, 'chainId' | 'multisig'>): { multisig: Hex } | Failure {
+  const multisig = getChainConfig(intent.chainId)?.multisig;
+  if (!multisig) return { error: `No MultisigSigner configured for chain ${intent.chainId}`, code: 'UNSUPPORTED_CHAIN' };
+  if (intent.multisig && intent.multisig.toLowerCase() !== multisig.toLowerCase()) {
+    return { error: `Intent was proposed against ${intent.multisig}, not the chain's MultisigSigner`, code: 'INVALID_STATE' };
+  }
+  return { multisig };
+}
+
+/**
+ * Re-reads the intent's multisig config and applies any change to it
+ *
+ * @param publicClient Client for the intent's chain
+ * @param intent The intent to check
+ * @returns The intent as stored afterwards, or a Failure when getConfig can't be read
+ */
+export async function refreshConfig(
+  publicClient: ChainClients['publicClient'],
+  intent: Intent,
+): Promise<{ intent: Intent } | Failure> {
+  const pinned = intentMultisig(intent);
+  if ('error' in pinned) return pinned;
+  const { multisig } = pinned;
+
+  let current;
+  try {
+    current = await readMultisigConfig(publicClient, multisig, intent.account, intent.externalKeyHash);
+  } catch (e) {
+    return { error: `getConfig failed: ${(e as Error).message}`, code: 'UPSTREAM_ERROR', status: 502 };
+  }
+  const owners = current.owners ?? [];
+  const threshold = Number(current.threshold);
+
+  const removed = intent.owners.filter((k) => !includes(owners, k));
+  const added = owners.filter((k) => !includes(intent.owners, k));
+  if (!removed.length && !added.length && threshold === intent.threshold) return { intent };
+
+  const dropped = intent.signatures.filter((s) => !includes(owners, s.ownerKeyHash)).map((s) => s.ownerKeyHash);
+
+  // Only changes that can take an intent out of `ready` are flagged; earlier ones are kept
+  const previous = intent.configDrift;
+  const configDrift: ConfigDrift | undefined =
+    removed.length || threshold > intent.threshold
+      ? {
+          removedOwners: union(previous?.removedOwners ?? [], removed),
+          thresholdBefore: previous?.thresholdBefore ?? intent.threshold,
+          droppedSignatures: union(previous?.droppedSignatures ?? [], dropped),
+          at: Date.now(),
+        }
+      : previous;
+
+  // Filter the latest stored signatures, not the copy read before getConfig
+  updateIntent(intent.id, (now) => ({
+    ...now,
+    owners,
+    threshold,
+    signatures: now.signatures.filter((s) => includes(owners, s.ownerKeyHash)),
+    configDrift,
+  }));
+  logEvent(intent.id, {
+    type: 'config_changed',
+    detail: [
+      removed.length ? `removed owners ${removed.map(short).join(', ')}` : '',
+      added.length ? `added owners ${added.map(short).join(', ')}` : '',
+      threshold !== intent.threshold ? `threshold ${intent.threshold} → ${threshold}` : '',
+      dropped.length ? `dropped ${dropped.length} signature(s)` : '',
+    ]
+      .filter(Boolean)
+      .join('; '),
+  });
+  return { intent: getIntent(intent.id) ?? { ...intent, owners, threshold, configDrift } };
+}
@@ -0,0 +1,149 @@
+/**
+ * Intent creation shared by POST /api/intents and server-proposed intents (cancellations, rebases)
+ *
+ * Reads the multisig config, checks governance calls against it, reads the lane nonce,
+ * computes the digest (submission.ts) and stores the intent.
+ */
+import type { Hex } from 'viem';
+import { randomUUID } from 'crypto';
+import { abi as multiSigAbi } from '@/../abis/MultisigSignerAbi.json';
+import { accountAbi } from '@/lib/abi/account';
+import { applyGovernanceCalls } from '@/lib/governance';
+import { getIntent, logEvent, upsertIntent, type Call, type Intent, type Proposer } from './store';
+import type { ChainClients } from './viem';
+import { prepareDigest } from './submission';
+import { emitWebhook } from './webhooks';
+import type { Failure } from './errors';
+
+export type NewIntent = {
+  account: Hex;
+  chainId: number;
+  externalKeyHash: Hex;
+  seqKey: bigint;
+  calls: (Call & { value: bigint })[];
+  multisig: Hex;
+  expiresAt?: number;
+  cancels?: string;
+  rebasedFrom?: string;
+  proposer?: Proposer;
+  prehash?: boolean;
+  config?: MultisigConfig;     // getConfig result when the caller already read it
+};
+
+export type MultisigConfig = { threshold: bigint; owners: Hex[] };
+
+/**
+ * Reads threshold and owner key hashes of a multisig key from the MultisigSigner
+ *
+ * @param publicClient Client for the account's chain
+ * @param multisig MultisigSigner address
+ * @param account The account
+ * @param externalKeyHash The multisig policy keyHash
+ * @returns The on-chain config (no owners when the key isn't initialized)
+ */
+export async function readMultisigConfig(
+  publicClient: ChainClients['publicClient'],
+  multisig: Hex,
+  account: Hex,
+  externalKeyHash: Hex,
+): Promise<MultisigConfig> {
+  const [threshold, owners] = (await publicClient.readContract({
+    address: multisig,
+    abi: multiSigAbi as any,
+    functionName: 'getConfig',
+    args: [account, externalKeyHash],
+  })) as [bigint, Hex[]];
+  return { threshold, owners };
+}
+
+/**
+ * Builds and stores a new intent in `collecting` state
+ *
+ * @param publicClient Client for the intent's chain
+ * @param params Account, key, lane, calls and MultisigSigner address
+ * @returns The stored intent, or a Failure for the caller to return
+ */
+export async function createIntent(
+  publicClient: ChainClients['publicClient'],
+  params: NewIntent,
+): Promise<{ intent: Intent } | Failure> {
+  const { account, chainId, externalKeyHash, seqKey, calls, multisig, expiresAt, cancels, rebasedFrom, proposer, prehash } = params;
+
+  // 1) Fetch config (threshold + owners) to store alongside the intent
+  let config: MultisigConfig;
+  try {
+    config = params.config ?? (await readMultisigConfig(publicClient, multisig, account, externalKeyHash));
+  } catch (e) {
+    return { error: `getConfig failed: ${(e as Error).message}`, code: 'UPSTREAM_ERROR', status: 502 };
+  }
+  const { threshold, owners: ownerKeyHashes } = config;
+
+  if (!ownerKeyHashes?.length) {
+    return { error: 'No owners configured for this keyHash', code: 'MULTISIG_NOT_CONFIGURED' };
+  }
+
+  // Owner/threshold changes must leave a config the MultisigSigner accepts
+  const governance = applyGovernanceCalls(
+    multisig,
+    externalKeyHash,
+    { threshold: Number(threshold), owners: ownerKeyHashes },
+    calls,
+  );
+  if (governance.error) {
+    return { error: `Invalid config change: ${governance.error}`, code: 'INVALID_CONFIG_CHANGE' };
+  }
+
+  // 2) Get nonce for sequence key (uint192)
+  let nonce: bigint;
+  try {
+    nonce = (await publicClient.readContract({
+      address: account,
+      abi: accountAbi,
+      functionName: 'getNonce',
+      args: [seqKey],
+    })) as bigint;
+  } catch (e) {
+    return { error: `getNonce failed: ${(e as Error).message}`, code: 'UPSTREAM_ERROR', status: 502 };
+  }
+
+  // 3) Digest to sign: account.computeDigest(calls, nonce)
+  const prepared = await prepareDigest(publicClient, { account, calls, nonce });
+  if ('error' in prepared) return prepared;
+  const { digest } = prepared;
+
+  const intent = upsertIntent({
+    id: randomUUID(),
+    account,
+    chainId,
+    externalKeyHash,
+    seqKey,
+    nonce,
+    digest,
+    ...(prehash ? { prehash } : {}),
+    calls,
+    threshold: Number(threshold),
+    owners: ownerKeyHashes,
+    signatures: [],
+    status: 'collecting',
+    createdAt: Date.now(),
+    multisig,
+    ...(expiresAt ? { expiresAt } : {}),
+    ...(cancels ? { cancels } : {}),
+    ...(rebasedFrom ? { rebasedFrom } : {}),
+    ...(proposer ? { proposer } : {}),
+  });
+
+  logEvent(intent.id, {
+    type: 'created',
+    actor: proposer?.keyHash,
+    detail: cancels
+      ? `Proposed to cancel ${cancels} by invalidating its nonce`
+      : rebasedFrom
+        ? `Rebased from stale intent ${rebasedFrom}`
+        : `${calls.length} call${calls.length === 1 ? '' : 's'}, threshold ${threshold} of ${ownerKeyHashes.length}`,
+  });
+
+  const stored = getIntent(intent.id) ?? intent;
+  emitWebhook('intent.created', stored);
+  return { intent: stored };
+}
@@ -0,0 +1,227 @@
+/**
+ * Intent storage backends
+ *
+ * The store in `store.ts` talks to a small synchronous backend interface so routes
+ * never need to know where intents live:
+ * - `memory`: a Map on globalThis (lost on restart, per-instance only)
+ * - `file`:   a JSON document on disk, shared by every instance pointed at the same path
+ *
+ * The file backend encodes bigint fields (`seqKey`, `nonce`, call values) as tagged
+ * strings and runs schema migrations when it loads a document written by an older version.
+ * Other collections (webhooks) use the same backends in their own document/Map.
+ *
+ * Changes to an existing record go through `update(id, fn)`, which reads the current record
+ * and writes the result in one step (under a lock file for the file backend), so concurrent
+ * writers never overwrite each other's changes with a stale copy.
+ */
+import fs from 'fs';
+import path from 'path';
+import { migrate, SCHEMA_VERSION, type RawDocument } from './migrations';
+
+export interface IntentBackend<T extends { id: string }> {
+  get(id: string): T | undefined;
+  put(record: T): void;
+  // Applies fn to the current record and stores what it returns (undefined: no write)
+  update(id: string, fn: (current: T) => T | undefined): T | undefined;
+  remove(id: string): void;
+  all(): Map<string, T>;
+}
+
+/**
+ * JSON encoding that round-trips bigint values as `{ "$bigint": "<decimal>" }`
+ */
+const BIGINT_TAG = '$bigint';
+
+export const encodeJson = (value: unknown) =>
+  JSON.stringify(
+    value,
+    (_key, v) => (typeof v === 'bigint' ? { [BIGINT_TAG]: v.toString() } : v),
+    2,
+  );
+
+export const decodeJson = <T>(text: string): T =>
+  JSON.parse(text, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v) && typeof v[BIGINT_TAG] === 'string' && Object.keys(v).length === 1
+      ? BigInt(v[BIGINT_TAG])
+      : v,
+  );
+
+type Document<T> = { version: number; intents: Record<string, T> };
+
+// How a collection's documents are versioned; records always live under `intents`
+export type DocumentSchema = { version: number; upgrade: (raw: RawDocument) => RawDocument };
+
+const INTENT_SCHEMA: DocumentSchema = { version: SCHEMA_VERSION, upgrade: migrate };
+
+/**
+ * In-memory backend. Uses globalThis to persist across module reloads in development.
+ */
+export function memoryBackend<T extends { id: string }>(key = 'intentDB'): IntentBackend<T> {
+  const globalForDB = globalThis as unknown as Record<string, Map<string, T> | undefined>;
+  const DB = globalForDB[key] ?? new Map<string, T>();
+  if (!globalForDB[key]) {
+    globalForDB[key] = DB;
+  }
+  return {
+    get: (id) => DB.get(id),
+    put: (record) => {
+      DB.set(record.id, record);
+    },
+    update: (id, fn) => {
+      const current = DB.get(id);
+      const next = current && fn(current);
+      if (next) DB.set(id, next);
+      return next;
+    },
+    remove: (id) => {
+      DB.delete(id);
+    },
+    all: () => DB,
+  };
+}
+
+// A lock is held for one read-modify-write of the document (milliseconds), so one this old was
+// left behind by a crashed instance. It must be below the timeout, or writers give up before
+// they are allowed to break it.
+const LOCK_STALE_MS = 1500;
+const LOCK_TIMEOUT_MS = 2500;
+
+/**
+ * The file store's lock could not be taken within LOCK_TIMEOUT_MS (see withStoreErrors)
+ */
+export class StoreBusyError extends Error {
+  constructor(lock: string) {
+    super(`Timed out waiting for ${lock}`);
+    this.name = 'StoreBusyError';
+  }
+}
+
+// Blocks the (synchronous) backend for a few ms while another instance holds the lock;
+// bounded by LOCK_TIMEOUT_MS in total
+const pause = (ms: number) => Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+
+// Locks this process holds (the backend is synchronous, so a lock is only re-entered by itself)
+const held = new Set<string>();
+
+/**
+ * Runs fn while holding `<file>.lock`, created with O_EXCL so only one instance gets it
+ */
+function withFileLock<R>(file: string, fn: () => R): R {
+  if (held.has(file)) return fn();
+  const lock = `${file}.lock`;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lock, 'wx'));
+      break;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+      try {
+        if (Date.now() - fs.statSync(lock).mtimeMs > LOCK_STALE_MS) fs.rmSync(lock, { force: true });
+      } catch {
+        // released between the open and the stat
+      }
+      if (Date.now() > deadline) throw new StoreBusyError(lock);
+      pause(5);
+    }
+  }
+  held.add(file);
+  try {
+    return fn();
+  } finally {
+    held.delete(file);
+    fs.rmSync(lock, { force: true });
+  }
+}
+
+/**
+ * File backend. Keeps a cached copy of the document and re-reads it whenever the file
+ * changes on disk, so several server instances can share one store. Every write re-reads
+ * the document under a lock file and goes to a temporary file first, renamed into place.
+ */
+export function fileBackend<T extends { id: string }>(file: string, schema = INTENT_SCHEMA): IntentBackend<T> {
+  let cache = new Map<string, T>();
+  let loadedMtime = -1;
+
+  // force: re-read even when the mtime looks unchanged (writes within one mtime tick)
+  const load = (force = false) => {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(file);
+    } catch {
+      cache = new Map();
+      loadedMtime = -1;
+      return;
+    }
+    if (!force && stat.mtimeMs === loadedMtime) return;
+
+    const raw = decodeJson<RawDocument>(fs.readFileSync(file, 'utf8'));
+    const doc = schema.upgrade(raw) as Document<T>;
+    cache = new Map(Object.entries(doc.intents));
+    loadedMtime = stat.mtimeMs;
+
+    // Persist the upgraded document so older versions are only migrated once
+    if (raw.version !== doc.version) withFileLock(file, write);
+  };
+
+  const write = () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const doc: Document<T> = { version: schema.version, intents: Object.fromEntries(cache) };
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, encodeJson(doc));
+    fs.renameSync(tmp, file);
+    loadedMtime = fs.statSync(file).mtimeMs;
+  };
+
+  return {
+    get: (id) => {
+      load();
+      return cache.get(id);
+    },
+    put: (record) =>
+      withFileLock(file, () => {
+        load(true);
+        cache.set(record.id, record);
+        write();
+      }),
+    update: (id, fn) =>
+      withFileLock(file, () => {
+        load(true);
+        const current = cache.get(id);
+        const next = current && fn(current);
+        if (!next) return undefined;
+        cache.set(id, next);
+        write();
+        return next;
+      }),
+    remove: (id) =>
+      withFileLock(file, () => {
+        load(true);
+        if (cache.delete(id)) write();
+      }),
+    all: () => {
+      load();
+      return new Map(cache);
+    },
+  };
+}
+
+/**
+ * Picks the backend from INTENT_STORE ('file' | 'memory', default 'file').
+ * The file location is INTENT_STORE_PATH (default `.data/intents.json`); other collections
+ * are stored next to it as `<collection>.json`.
+ *
+ * @param collection Collection name (default 'intents')
+ * @param schema Versioning for the collection's file document (default: intent migrations)
+ */
+export function createBackend<T extends { id: string }>(collection = 'intents', schema?: DocumentSchema): IntentBackend<T> {
+  const kind = process.env.INTENT_STORE ?? 'file';
+  if (kind === 'memory') return memoryBackend<T>(collection === 'intents' ? 'intentDB' : `${collection}DB`);
+  if (kind === 'file') {
+    const intents = path.resolve(process.env.INTENT_STORE_PATH ?? '.data/intents.json');
+    if (collection === 'intents') return fileBackend<T>(intents, schema);
+    return fileBackend<T>(path.join(path.dirname(intents), `${collection}.json`), schema);
+  }
+  throw new Error(`Unknown INTENT_STORE backend: ${kind}`);
+}
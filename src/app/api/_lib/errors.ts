@@ -0,0 +1,73 @@
+/**
+ * API error envelope
+ *
+ * Every route fails with `{ error, code, ...details }`: `error` is a human-readable message
+ * for logs and curl, `code` is what clients branch on (see src/lib/apiErrors.ts for the UI
+ * messages). Helpers in _lib return a `Failure` and leave the response to the route.
+ */
+import { NextResponse } from 'next/server';
+import { StoreBusyError } from './db';
+
+export type ErrorCode =
+  | 'INVALID_PAYLOAD'          // body or query failed its schema; `field` names the culprit
+  | 'NOT_FOUND'
+  | 'UNSUPPORTED_CHAIN'
+  | 'MULTISIG_NOT_CONFIGURED'  // getConfig has no owners for the key
+  | 'INVALID_CONFIG_CHANGE'    // governance calls would leave an invalid config
+  | 'PROPOSER_UNAUTHENTICATED' // missing/expired challenge or bad proposal signature
+  | 'PROPOSER_NOT_OWNER'
+  | 'UNAUTHORIZED'             // admin API token
+  | 'FEATURE_DISABLED'         // env-gated route is off
+  | 'INVALID_SIGNATURE'
+  | 'SIGNER_NOT_OWNER'
+  | 'DIGEST_MISMATCH'
+  | 'NONCE_MISMATCH'
+  | 'INTENT_STALE'
+  | 'INTENT_CLOSED'            // cancelled or expired
+  | 'ALREADY_SUBMITTED'
+  | 'THRESHOLD_NOT_MET'
+  | 'INVALID_STATE'            // action not allowed in the intent's current status
+  | 'SIMULATION_FAILED'
+  | 'RELAYER_NOT_CONFIGURED'
+  | 'SUBMISSION_FAILED'
+  | 'UPSTREAM_ERROR'           // RPC or remote call failed
+  | 'RATE_LIMITED'             // too many outstanding requests of this kind; retry later
+  | 'STORE_BUSY'               // the file store stayed locked by another instance; retry
+  | 'INTERNAL_ERROR';
+
+export type Failure = { error: string; code: ErrorCode; status?: number };
+
+/**
+ * Error response in the shared envelope
+ *
+ * @param code Machine-readable code
+ * @param error Human-readable message
+ * @param status HTTP status (default 400)
+ * @param details Extra fields for the client (e.g. currentNonce)
+ */
+export const apiError = (code: ErrorCode, error: string, status = 400, details: Record<string, unknown> = {}) =>
+  NextResponse.json({ error, code, ...details }, { status });
+
+/**
+ * Error response for a Failure returned by a _lib helper
+ */
+export const failureResponse = (f: Failure, details?: Record<string, unknown>) =>
+  apiError(f.code, f.error, f.status ?? 400, details);
+
+/**
+ * Wraps a route handler so a store that stays locked (StoreBusyError) answers 503 STORE_BUSY
+ * instead of an uncaught 500
+ *
+ * @param handler The route handler
+ * @returns The same handler with store errors mapped
+ */
+export const withStoreErrors =
+  <A extends unknown[]>(handler: (...args: A) => Promise<Response>) =>
+  async (...args: A): Promise<Response> => {
+    try {
+      return await handler(...args);
+    } catch (e) {
+      if (e instanceof StoreBusyError) return apiError('STORE_BUSY', e.message, 503);
+      throw e;
+    }
+  };
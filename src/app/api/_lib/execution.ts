@@ -0,0 +1,64 @@
+import { Hex, concatHex, encodeAbiParameters, toHex } from 'viem';
+import { aggregateSignatures } from './aggregate';
+import type { Call, Intent } from './store';
+
+const CALLS_PARAM = {
+  type: 'tuple[]',
+  components: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+  ],
+} as const;
+
+/**
+ * The on-chain Call struct for each stored call (drops display-only abi/token fields)
+ *
+ * @param calls Stored intent calls
+ * @returns Calls as encoded by computeDigest / execute
+ */
+export const toCallStructs = (calls: Call[]) => calls.map((c) => ({ to: c.to, value: BigInt(c.value), data: c.data }));
+
+/**
+ * The multisig key's signature over the intent digest, as the account unwraps it
+ *
+ * @param intent Intent with its signatures
+ * @returns abi.encodePacked(abi.encode(bytes[] ownerSigs), externalKeyHash, prehash), with
+ *   exactly `threshold` owner signatures in key hash order (see aggregate.ts)
+ */
+export const wrapMultisigSignature = (intent: Intent): Hex => aggregateSignatures(intent).signature;
+
+/**
+ * executionData for execute(MODE_SINGLE_WITH_OPDATA, …) from the collected signatures
+ *
+ * @param intent Intent with its signatures
+ * @returns abi.encode(Call[], opData)
+ */
+export const buildExecutionData = (intent: Intent): Hex =>
+  encodeExecutionData(toCallStructs(intent.calls), intent.nonce, wrapMultisigSignature(intent));
+
+/**
+ * executionData for execute(MODE_SINGLE_WITH_OPDATA, …) from its parts
+ *
+ * @param calls Call structs
+ * @param nonce Full uint256 nonce
+ * @param signature Wrapped signature over computeDigest(calls, nonce)
+ * @returns abi.encode(Call[], opData)
+ */
+export function encodeExecutionData(calls: { to: Hex; value: bigint; data: Hex }[], nonce: bigint, signature: Hex): Hex {
+  // 3) opData = abi.encodePacked(uint256 nonce, bytes signature)
+  const opData = concatHex([toHex(nonce, { size: 32 }), signature]);
+
+  // 4) executionData = abi.encode(Call[], opData)
+  return encodeAbiParameters([CALLS_PARAM, { type: 'bytes' }], [calls, opData]);
+}
+
+/**
+ * executionData for execute(MODE_SINGLE_NO_OPDATA, …): the calls alone, valid only when the
+ * account calls itself (used to dry-run calls before signatures exist)
+ *
+ * @param intent The intent
+ * @returns abi.encode(Call[])
+ */
+export const buildCallsOnlyExecutionData = (intent: Intent): Hex =>
+  encodeAbiParameters([CALLS_PARAM], [toCallStructs(intent.calls)]);
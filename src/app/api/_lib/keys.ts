@@ -0,0 +1,92 @@
+/**
+ * Public keys of owner key hashes
+ *
+ * Local signature verification (signatures.ts) needs the public key behind the key hash in
+ * a wrapped signature. Keys come from two places and are kept in their own collection:
+ * - a signer sending its public key along with a signature (self-certifying: the key hash is
+ *   recomputed from it, so a wrong key simply never matches). It is only stored once the
+ *   signature verified against it and the signer is an owner, or
+ * - the account itself, read once with getKey(keyHash) and cached.
+ *
+ * A key hash always names the same public key, so cached entries never go wrong; they can
+ * only outlive a revocation on the account, which the optional on-chain check catches.
+ */
+import { Hex, size } from 'viem';
+import { accountAbi } from '@/lib/abi/account';
+import { computeKeyHash } from '@/lib/externalKey';
+import { createBackend } from './db';
+import type { ChainClients } from './viem';
+
+// IthacaAccount.KeyType
+export const KEY_TYPE_P256 = 0;
+export const KEY_TYPE_WEBAUTHN_P256 = 1;
+
+export type RegisteredKey = {
+  id: Hex;                     // key hash
+  keyType: number;             // IthacaAccount.KeyType
+  publicKey: Hex;              // as stored on the account (x ‖ y for P-256 keys)
+  source: 'signer' | 'account';
+  at: number;                  // ms since epoch, when it was registered
+};
+
+const DB = createBackend<RegisteredKey>('keys', {
+  version: 1,
+  upgrade: (raw) => ({ version: 1, intents: raw.intents ?? {} }),
+});
+
+/**
+ * Record for a public key under its key hash, not stored yet (see registerKey)
+ *
+ * @param keyType IthacaAccount.KeyType
+ * @param publicKey Public key bytes
+ * @param source Where the key came from
+ * @returns The key, with the key hash IthacaAccount computes for it as `id`
+ */
+export function keyRecord(keyType: number, publicKey: Hex, source: RegisteredKey['source'] = 'signer'): RegisteredKey {
+  const normalized = publicKey.toLowerCase() as Hex;
+  return { id: computeKeyHash(keyType, normalized), keyType, publicKey: normalized, source, at: Date.now() };
+}
+
+/**
+ * Stores a key unless its key hash is already known
+ *
+ * @param key Record from keyRecord
+ * @returns The registered key
+ */
+export function registerKey(key: RegisteredKey) {
+  const existing = DB.get(key.id);
+  if (existing) return existing;
+  DB.put(key);
+  return key;
+}
+
+/**
+ * Public key for a key hash, from the registry or else the account
+ *
+ * @param publicClient Client for the account's chain
+ * @param account Account the key should belong to
+ * @param keyHash Key hash from a wrapped signature
+ * @returns The key, or undefined when neither knows it (or the RPC read failed)
+ */
+export async function lookupKey(
+  publicClient: ChainClients['publicClient'],
+  account: Hex,
+  keyHash: Hex,
+): Promise<RegisteredKey | undefined> {
+  const known = DB.get(keyHash.toLowerCase());
+  if (known) return known;
+
+  try {
+    const key = (await publicClient.readContract({
+      address: account,
+      abi: accountAbi,
+      functionName: 'getKey',
+      args: [keyHash],
+    })) as { keyType: number; publicKey: Hex };
+    if (size(key.publicKey) === 0) return undefined;
+    const record = keyRecord(key.keyType, key.publicKey, 'account');
+    return record.id === keyHash.toLowerCase() ? registerKey(record) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Nonce lane bookkeeping for an account
+ *
+ * A lane is "busy" while it has an intent that has not landed yet (collecting, submitting or submitted):
+ * a second intent on it would share the nonce and invalidate the first. A cancelled intent
+ * keeps its lane busy until its invalidateNonce intent confirms, since that invalidation
+ * would also burn the nonce of anything proposed on the lane in the meantime.
+ */
+import type { Hex } from 'viem';
+import { getAllIntents, type Intent } from './store';
+import type { ChainClients } from './viem';
+import { accountAbi } from '@/lib/abi/account';
+import { splitNonce } from '@/lib/nonce';
+
+export type Lane = {
+  seqKey: bigint;
+  nonce: bigint;               // full on-chain nonce for the lane
+  sequence: bigint;            // lower 64 bits: intents already executed on this lane
+  open: number;                // intents on this lane that still hold its next nonce
+};
+
+const OPEN: Intent['status'][] = ['collecting', 'submitting', 'submitted'];
+
+const intentsFor = (account: Hex, chainId: number) =>
+  [...getAllIntents().values()].filter(
+    (i) => i.account.toLowerCase() === account.toLowerCase() && i.chainId === chainId,
+  );
+
+const isOpen = (i: Intent, all: Map<string, Intent>) =>
+  OPEN.includes(i.status) ||
+  (i.status === 'cancelled' && !!i.cancelledBy && all.get(i.cancelledBy)?.status !== 'confirmed');
+
+/**
+ * Picks the lowest lane with no open intents for the account
+ *
+ * @param account The IthacaAccount
+ * @param chainId Chain the intent targets
+ * @param exclude Lanes to skip even if free (e.g. the lane a cancellation invalidates)
+ * @returns A free sequence key
+ */
+export function allocateSeqKey(account: Hex, chainId: number, exclude: bigint[] = []): bigint {
+  const all = getAllIntents();
+  const busy = new Set([
+    ...exclude,
+    ...intentsFor(account, chainId)
+      .filter((i) => isOpen(i, all))
+      .map((i) => BigInt(i.seqKey)),
+  ]);
+  let k = BigInt(0);
+  while (busy.has(k)) k += BigInt(1);
+  return k;
+}
+
+/**
+ * Reads the current nonce of every lane the account has used (plus lane 0)
+ *
+ * @param publicClient Client for the account's chain
+ * @param account The IthacaAccount
+ * @param chainId Chain to read
+ * @returns Lanes sorted by sequence key
+ */
+export async function readLanes(
+  publicClient: ChainClients['publicClient'],
+  account: Hex,
+  chainId: number,
+): Promise<Lane[]> {
+  const all = getAllIntents();
+  const intents = intentsFor(account, chainId);
+  const keys = [...new Set([BigInt(0), ...intents.map((i) => BigInt(i.seqKey))])].sort((a, b) =>
+    a < b ? -1 : a > b ? 1 : 0,
+  );
+
+  return Promise.all(
+    keys.map(async (seqKey) => {
+      const nonce = (await publicClient.readContract({
+        address: account,
+        abi: accountAbi,
+        functionName: 'getNonce',
+        args: [seqKey],
+      })) as bigint;
+      return {
+        seqKey,
+        nonce,
+        sequence: splitNonce(nonce).sequence,
+        open: intents.filter((i) => BigInt(i.seqKey) === seqKey && isOpen(i, all)).length,
+      };
+    }),
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Schema migrations for persisted intent documents
+ *
+ * Each migration upgrades a document from `version - 1` to `version`. When the `Intent`
+ * type gains a field that needs a value on existing records, bump SCHEMA_VERSION and
+ * append a migration that fills it in.
+ */
+
+export type RawDocument = { version?: number; intents?: Record<string, Record<string, unknown>> };
+type Migration = { version: number; up: (intents: Record<string, Record<string, unknown>>) => void };
+
+const migrations: Migration[] = [
+  // v1: initial persisted layout, identical to the in-memory Intent shape
+  { version: 1, up: () => {} },
+  // v2: createdAt for sorting/pagination; older records fall back to their first signature time
+  {
+    version: 2,
+    up: (intents) => {
+      for (const i of Object.values(intents)) {
+        if (typeof i.createdAt === 'number') continue;
+        const sigs = (i.signatures as { at: number }[] | undefined) ?? [];
+        i.createdAt = sigs.length ? Math.min(...sigs.map((s) => s.at)) : 0;
+      }
+    },
+  },
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Upgrades a raw document to SCHEMA_VERSION, mutating and returning it
+ *
+ * @param doc The decoded document (documents without a version are treated as v0)
+ * @returns The upgraded document
+ */
+export function migrate(doc: RawDocument) {
+  const from = doc.version ?? 0;
+  if (from > SCHEMA_VERSION) {
+    throw new Error(`Intent store is at schema v${from}, newer than supported v${SCHEMA_VERSION}`);
+  }
+  const intents = doc.intents ?? {};
+  for (const m of migrations) {
+    if (m.version > from) m.up(intents);
+  }
+  return { version: SCHEMA_VERSION, intents };
+}
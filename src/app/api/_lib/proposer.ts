@@ -0,0 +1,188 @@
+/**
+ * Proposer authentication for POST /api/intents and for actions on existing intents
+ *
+ * A proposer asks POST /api/intents/challenge for a random challenge bound to the account
+ * and chain, signs proposalDigest(challenge) with a passkey of the account and sends the
+ * wrapped signature (and the passkey's public key) with the proposal. The signature is checked
+ * like an intent signature (signatures.ts) and the key hash it names must be an owner in the
+ * MultisigSigner's getConfig.
+ *
+ * Challenges are kept in the shared store (so any instance can redeem them) for
+ * CHALLENGE_TTL_MS and are consumed on first use, so a signature can't be replayed. Issuing is
+ * unauthenticated, so outstanding challenges are capped: per account and chain the oldest is
+ * dropped for a new one, and past MAX_CHALLENGES issuing is refused until some expire. PROPOSAL_POLICY ({"<account>": "open", "*": "owners"}) lets an
+ * account accept proposals from non-owners, with or without a signature; the default is
+ * `owners`. Cancelling and replacing always need an owner (authenticateIntentCaller).
+ */
+import { Hex, isHex, size } from 'viem';
+import { randomBytes } from 'crypto';
+import { createBackend } from './db';
+import { proposalDigest, type ProposalAuth } from '@/lib/proposal';
+import { validateWrappedSignature } from './signatures';
+import { registerKey } from './keys';
+import { readMultisigConfig } from './create';
+import { intentMultisig } from './config';
+import type { Failure } from './errors';
+import type { Intent, Proposer } from './store';
+import type { ChainClients } from './viem';
+
+export type ProposalPolicy = 'owners' | 'open';
+
+type Challenge = {
+  id: Hex;                     // the challenge itself
+  account: Hex;
+  chainId: number;
+  issuedAt: number;            // ms since epoch
+  expiresAt: number;           // ms since epoch
+  used?: boolean;              // set by the first redemption, just before it is removed
+};
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGES_PER_ACCOUNT = 16;
+const MAX_CHALLENGES = 5000;
+
+const challenges = createBackend<Challenge>('challenges', {
+  version: 1,
+  upgrade: (raw) => ({ version: 1, intents: raw.intents ?? {} }),
+});
+
+const policies = (() => {
+  try {
+    const raw = JSON.parse(process.env.PROPOSAL_POLICY || '{}') as Record<string, ProposalPolicy>;
+    return new Map(Object.entries(raw).map(([k, v]) => [k.toLowerCase(), v]));
+  } catch {
+    console.warn('PROPOSAL_POLICY is not valid JSON; only owners may propose');
+    return new Map<string, ProposalPolicy>();
+  }
+})();
+
+/**
+ * Who may propose intents for an account
+ *
+ * @param account The account
+ * @returns The account's policy, the `*` entry, or `owners`
+ */
+export const proposalPolicy = (account: Hex): ProposalPolicy =>
+  policies.get(account.toLowerCase()) ?? policies.get('*') ?? 'owners';
+
+/**
+ * Issues a single-use challenge for proposing an intent
+ *
+ * @param account Account the intent will be proposed for
+ * @param chainId Chain the intent will be proposed on
+ * @returns The challenge and when it stops being accepted (ms), or a Failure when too many are outstanding
+ */
+export function issueChallenge(account: Hex, chainId: number): { challenge: Hex; expiresAt: number } | Failure {
+  const now = Date.now();
+  const live: Challenge[] = [];
+  for (const c of challenges.all().values()) {
+    if (c.expiresAt <= now) challenges.remove(c.id);
+    else live.push(c);
+  }
+
+  const mine = live
+    .filter((c) => c.account.toLowerCase() === account.toLowerCase() && c.chainId === chainId)
+    .sort((a, b) => a.issuedAt - b.issuedAt);
+  const dropped = mine.slice(0, Math.max(0, mine.length + 1 - MAX_CHALLENGES_PER_ACCOUNT));
+  for (const c of dropped) challenges.remove(c.id);
+  if (live.length - dropped.length >= MAX_CHALLENGES) {
+    return { error: 'Too many outstanding proposal challenges; try again in a few minutes', code: 'RATE_LIMITED', status: 429 };
+  }
+
+  const challenge = `0x${randomBytes(32).toString('hex')}` as Hex;
+  const expiresAt = now + CHALLENGE_TTL_MS;
+  challenges.put({ id: challenge, account, chainId, issuedAt: now, expiresAt });
+  return { challenge, expiresAt };
+}
+
+/**
+ * Checks the proposal signature and the proposer's standing
+ *
+ * The challenge is consumed whether or not the check passes.
+ *
+ * @param publicClient Client for the intent's chain
+ * @param params Account and chain of the proposal, the owner key hashes from getConfig and the proof
+ * @returns The proposer (undefined for an anonymous proposal under an open policy), or a Failure
+ */
+export async function authenticateProposer(
+  publicClient: ChainClients['publicClient'],
+  params: { account: Hex; chainId: number; owners: Hex[]; proposal?: Partial<ProposalAuth>; policy?: ProposalPolicy },
+): Promise<{ proposer?: Proposer } | Failure> {
+  const { account, chainId, owners, proposal } = params;
+  const policy = params.policy ?? proposalPolicy(account);
+
+  if (!proposal?.challenge || !proposal.wrappedSignature) {
+    if (policy === 'open') return {};
+    return {
+      error: 'Proposal must be signed by an owner passkey (proposal.challenge, proposal.wrappedSignature)',
+      code: 'PROPOSER_UNAUTHENTICATED',
+      status: 401,
+    };
+  }
+
+  // Marking it used and removing it are separate writes; the mark is what makes redemption single-use
+  const challenge = challenges.update(proposal.challenge, (c) => (c.used ? undefined : { ...c, used: true }));
+  challenges.remove(proposal.challenge);
+  if (
+    !challenge ||
+    challenge.expiresAt <= Date.now() ||
+    challenge.account.toLowerCase() !== account.toLowerCase() ||
+    challenge.chainId !== chainId
+  ) {
+    return { error: 'Unknown or expired proposal challenge', code: 'PROPOSER_UNAUTHENTICATED', status: 401 };
+  }
+
+  const checked = await validateWrappedSignature(
+    publicClient,
+    account,
+    proposalDigest(proposal.challenge),
+    proposal.wrappedSignature,
+    isHex(proposal.publicKey, { strict: true }) && size(proposal.publicKey) === 64 ? proposal.publicKey : undefined,
+  );
+  if (!checked.ok && checked.reason === 'rpc') {
+    return { error: 'Could not validate the proposal signature on-chain', code: 'UPSTREAM_ERROR', status: 502 };
+  }
+  if (!checked.ok) {
+    return { error: 'Proposal signature does not validate against the account', code: 'PROPOSER_UNAUTHENTICATED', status: 401 };
+  }
+
+  const owner = owners.some((k) => k.toLowerCase() === checked.ownerKh.toLowerCase());
+  if (!owner && policy !== 'open') {
+    return { error: 'Proposer is not an owner of this multisig', code: 'PROPOSER_NOT_OWNER', status: 403 };
+  }
+  if (owner && checked.newKey) registerKey(checked.newKey);
+  return { proposer: { keyHash: checked.ownerKh, owner, at: Date.now() } };
+}
+
+/**
+ * Authenticates the caller of an action on an existing intent against its current owners
+ *
+ * Rebase is a new proposal and follows PROPOSAL_POLICY; cancel and replace pass `owners`,
+ * since they act on what other owners proposed and signed.
+ *
+ * @param publicClient Client for the intent's chain
+ * @param intent The intent acted on
+ * @param proposal Signed challenge from the caller
+ * @param policy Overrides the account's PROPOSAL_POLICY
+ * @returns The caller (undefined only for an anonymous caller under an open policy), or a Failure
+ */
+export async function authenticateIntentCaller(
+  publicClient: ChainClients['publicClient'],
+  intent: Intent,
+  proposal?: Partial<ProposalAuth>,
+  policy?: ProposalPolicy,
+): Promise<{ proposer?: Proposer } | Failure> {
+  const pinned = intentMultisig(intent);
+  if ('error' in pinned) return pinned;
+  const { multisig } = pinned;
+  const config = await readMultisigConfig(publicClient, multisig, intent.account, intent.externalKeyHash).catch(() => undefined);
+  if (!config) return { error: `Could not read getConfig from ${multisig}`, code: 'UPSTREAM_ERROR', status: 502 };
+
+  return authenticateProposer(publicClient, {
+    account: intent.account,
+    chainId: intent.chainId,
+    owners: config.owners ?? [],
+    proposal,
+    policy,
+  });
+}
@@ -0,0 +1,127 @@
+/**
+ * Intent listing with filters, sorting and cursor pagination
+ *
+ * Cursors are opaque base64url tokens holding the sort key and id of the last item
+ * returned, so pages stay stable while new intents are being created.
+ */
+import type { Hex } from 'viem';
+import { getAllIntents, type Intent } from './store';
+
+export type SortField = 'createdAt' | 'nonce';
+export type SortOrder = 'asc' | 'desc';
+
+export type IntentQuery = {
+  account?: Hex;
+  externalKeyHash?: Hex;
+  status?: Intent['status'][];
+  awaitingSigner?: Hex;        // owner keyHash that has not signed yet
+  sort: SortField;
+  order: SortOrder;
+  limit: number;
+  cursor?: string;
+};
+
+export const MAX_LIMIT = 100;
+const DEFAULT_LIMIT = 20;
+const STATUSES: Intent['status'][] = ['collecting', 'submitting', 'submitted', 'confirmed', 'failed', 'cancelled', 'expired', 'stale'];
+
+type Cursor = { k: string; id: string };
+
+const encodeCursor = (c: Cursor) => Buffer.from(JSON.stringify(c)).toString('base64url');
+
+const decodeCursor = (s: string): Cursor | undefined => {
+  try {
+    const c = JSON.parse(Buffer.from(s, 'base64url').toString('utf8'));
+    // k goes straight into BigInt(), so anything but a decimal integer is rejected here
+    return typeof c?.k === 'string' && /^\d+$/.test(c.k) && typeof c?.id === 'string' ? c : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const sortKey = (i: Intent, field: SortField) => (field === 'nonce' ? BigInt(i.nonce) : BigInt(i.createdAt));
+
+const eq = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Parses list query parameters
+ *
+ * @param params URL search params from the request
+ * @returns The parsed query, or an error message for invalid input
+ */
+export function parseIntentQuery(params: URLSearchParams): { query: IntentQuery } | { error: string } {
+  const sort = (params.get('sort') ?? 'createdAt') as SortField;
+  if (sort !== 'createdAt' && sort !== 'nonce') return { error: `Invalid sort: ${sort}` };
+
+  const order = (params.get('order') ?? 'desc') as SortOrder;
+  if (order !== 'asc' && order !== 'desc') return { error: `Invalid order: ${order}` };
+
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: `limit must be an integer between 1 and ${MAX_LIMIT}` };
+  }
+
+  const status = params.get('status')?.split(',').filter(Boolean) as Intent['status'][] | undefined;
+  const badStatus = status?.find((s) => !STATUSES.includes(s));
+  if (badStatus) return { error: `Invalid status: ${badStatus}` };
+
+  const cursor = params.get('cursor') ?? undefined;
+  if (cursor && !decodeCursor(cursor)) return { error: 'Invalid cursor' };
+
+  return {
+    query: {
+      account: (params.get('account') as Hex) ?? undefined,
+      externalKeyHash: (params.get('externalKeyHash') as Hex) ?? undefined,
+      status,
+      awaitingSigner: (params.get('awaitingSigner') as Hex) ?? undefined,
+      sort,
+      order,
+      limit,
+      cursor,
+    },
+  };
+}
+
+/**
+ * Returns one page of intents matching the query
+ *
+ * @param q The parsed query
+ * @returns Matching intents and the cursor for the next page (if any)
+ */
+export function queryIntents(q: IntentQuery): { items: Intent[]; nextCursor?: string } {
+  const matches = [...getAllIntents().values()].filter((i) => {
+    if (q.account && !eq(i.account, q.account)) return false;
+    if (q.externalKeyHash && !eq(i.externalKeyHash, q.externalKeyHash)) return false;
+    if (q.status && !q.status.includes(i.status)) return false;
+    if (q.awaitingSigner) {
+      const signer = q.awaitingSigner;
+      if (i.status !== 'collecting') return false;
+      if (!i.owners.some((o) => eq(o, signer))) return false;
+      if (i.signatures.some((s) => eq(s.ownerKeyHash, signer))) return false;
+    }
+    return true;
+  });
+
+  const dir = q.order === 'asc' ? 1 : -1;
+  const compare = (ak: bigint, aId: string, bk: bigint, bId: string) =>
+    (ak === bk ? (aId < bId ? -1 : aId > bId ? 1 : 0) : ak < bk ? -1 : 1) * dir;
+
+  matches.sort((a, b) => compare(sortKey(a, q.sort), a.id, sortKey(b, q.sort), b.id));
+
+  let start = 0;
+  const cursor = q.cursor ? decodeCursor(q.cursor) : undefined;
+  if (cursor) {
+    const ck = BigInt(cursor.k);
+    start = matches.findIndex((i) => compare(sortKey(i, q.sort), i.id, ck, cursor.id) > 0);
+    if (start === -1) start = matches.length;
+  }
+
+  const items = matches.slice(start, start + q.limit);
+  const last = items[items.length - 1];
+  const nextCursor =
+    start + q.limit < matches.length && last
+      ? encodeCursor({ k: sortKey(last, q.sort).toString(), id: last.id })
+      : undefined;
+
+  return { items, nextCursor };
+}
@@ -0,0 +1,178 @@
+/**
+ * Relayer transaction management
+ *
+ * - Nonces: sends on a chain are serialized through a per-chain queue and the relayer's
+ *   next nonce is tracked locally (resynced from the `pending` count after any failure),
+ *   so concurrent submits never race. This is per process; run one relaying instance.
+ * - Fees: EIP-1559 fees from `estimateFeesPerGas`, capped by RELAYER_MAX_FEE_GWEI and
+ *   RELAYER_MAX_PRIORITY_FEE_GWEI.
+ * - Replacement: a pending submit can be sped up (same call, same nonce, bumped fees) or
+ *   cancelled (0-value self-transfer at the same nonce).
+ *
+ * Every attempt, including failed sends, is recorded on the intent.
+ */
+import { Hex, encodeFunctionData, parseGwei } from 'viem';
+import { updateIntent, type Intent, type RelayAttempt } from './store';
+import { MODE_SINGLE_WITH_OPDATA, type ChainClients } from './viem';
+import { accountAbi } from '@/lib/abi/account';
+
+export type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+export type FeePolicy = {
+  maxFeeCap: bigint;           // wei
+  maxPriorityFeeCap: bigint;   // wei
+  bumpPercent: bigint;         // replacement increase; nodes require at least 10
+};
+
+export const feePolicy: FeePolicy = {
+  maxFeeCap: parseGwei(process.env.RELAYER_MAX_FEE_GWEI ?? '50'),
+  maxPriorityFeeCap: parseGwei(process.env.RELAYER_MAX_PRIORITY_FEE_GWEI ?? '2'),
+  bumpPercent: BigInt(process.env.RELAYER_BUMP_PERCENT ?? '15'),
+};
+
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+/**
+ * Caps estimated fees to the policy
+ *
+ * @param estimate Fees from estimateFeesPerGas
+ * @param policy Fee caps
+ * @returns Fees to send with (priority fee never above max fee)
+ */
+export function applyFeePolicy(estimate: Fees, policy: FeePolicy): Fees {
+  const maxFeePerGas = min(estimate.maxFeePerGas, policy.maxFeeCap);
+  return {
+    maxFeePerGas,
+    maxPriorityFeePerGas: min(min(estimate.maxPriorityFeePerGas, policy.maxPriorityFeeCap), maxFeePerGas),
+  };
+}
+
+/**
+ * Fees for a replacement: at least bumpPercent above the previous attempt, or the current
+ * market if that is higher, within the caps
+ *
+ * @param prev Fees of the transaction being replaced
+ * @param market Current capped fees
+ * @param policy Fee caps and bump
+ * @returns Replacement fees, or an error when the caps leave no room for a valid bump
+ */
+export function bumpFees(prev: Fees, market: Fees, policy: FeePolicy): Fees | { error: string } {
+  const bump = (v: bigint) => (v * (BigInt(100) + policy.bumpPercent) + BigInt(99)) / BigInt(100);
+  const maxFeePerGas = max(bump(prev.maxFeePerGas), market.maxFeePerGas);
+  const maxPriorityFeePerGas = max(bump(prev.maxPriorityFeePerGas), market.maxPriorityFeePerGas);
+  if (maxFeePerGas > policy.maxFeeCap || maxPriorityFeePerGas > policy.maxPriorityFeeCap) {
+    return { error: 'Fee cap reached: cannot bump fees further (raise RELAYER_MAX_FEE_GWEI / RELAYER_MAX_PRIORITY_FEE_GWEI)' };
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+type RelayerState = { queues: Map<number, Promise<unknown>>; nonces: Map<number, number> };
+
+const state = (() => {
+  const g = globalThis as unknown as { relayerState?: RelayerState };
+  g.relayerState ??= { queues: new Map(), nonces: new Map() };
+  return g.relayerState;
+})();
+
+// Runs fn after every earlier send on the same chain has finished
+function serialize<T>(chainId: number, fn: () => Promise<T>): Promise<T> {
+  const prev = state.queues.get(chainId) ?? Promise.resolve();
+  const next = prev.then(fn, fn);
+  state.queues.set(chainId, next.catch(() => undefined));
+  return next;
+}
+
+const marketFees = async (clients: ChainClients) =>
+  applyFeePolicy((await clients.publicClient.estimateFeesPerGas()) as Fees, feePolicy);
+
+const record = (intent: Intent, attempt: RelayAttempt) => {
+  updateIntent(intent.id, (now) => ({ ...now, attempts: [...(now.attempts ?? []), attempt] }));
+};
+
+// Attempts that reached the node carry the nonce and fees they were sent with
+const wasSent = (a: RelayAttempt): a is RelayAttempt & Fees & { hash: Hex; nonce: number } =>
+  !!a.hash && a.nonce !== undefined && a.maxFeePerGas !== undefined && a.maxPriorityFeePerGas !== undefined;
+
+const errorMessage = (e: unknown) =>
+  (e as { shortMessage?: string })?.shortMessage ?? (e instanceof Error ? e.message : String(e));
+
+const executeCalldata = (executionData: Hex) =>
+  encodeFunctionData({ abi: accountAbi, functionName: 'execute', args: [MODE_SINGLE_WITH_OPDATA, executionData] });
+
+/**
+ * Sends execute() for an intent with the next relayer nonce
+ *
+ * @param intent The intent being submitted
+ * @param clients Clients for the intent's chain (walletClient required)
+ * @param executionData Encoded Call[] + opData
+ * @returns The tx hash, or the fee, nonce or send error (also recorded as a failed attempt)
+ */
+export function relayExecute(intent: Intent, clients: ChainClients, executionData: Hex) {
+  return serialize(intent.chainId, async (): Promise<{ hash: Hex } | { error: string }> => {
+    const wallet = clients.walletClient!;
+    let fees: Fees | undefined;
+    let nonce: number | undefined;
+    try {
+      fees = await marketFees(clients);
+      nonce =
+        state.nonces.get(intent.chainId) ??
+        (await clients.publicClient.getTransactionCount({ address: wallet.account.address, blockTag: 'pending' }));
+      const hash = await wallet.sendTransaction({
+        to: intent.account,
+        data: executeCalldata(executionData),
+        nonce,
+        ...fees,
+      });
+      state.nonces.set(intent.chainId, nonce + 1);
+      record(intent, { kind: 'submit', hash, nonce, ...fees, at: Date.now() });
+      return { hash };
+    } catch (e) {
+      state.nonces.delete(intent.chainId);
+      record(intent, { kind: 'submit', nonce, ...fees, at: Date.now(), error: errorMessage(e) });
+      return { error: errorMessage(e) };
+    }
+  });
+}
+
+/**
+ * Replaces the pending submit of an intent at the same relayer nonce
+ *
+ * @param intent A submitted intent
+ * @param clients Clients for the intent's chain (walletClient required)
+ * @param action 'speedup' re-sends execute with bumped fees; 'cancel' sends a 0-value self-transfer
+ * @param executionData Encoded Call[] + opData (used for speedup)
+ * @returns The replacement hash, or an error
+ */
+export function replaceExecute(
+  intent: Intent,
+  clients: ChainClients,
+  action: 'speedup' | 'cancel',
+  executionData: Hex,
+) {
+  return serialize(intent.chainId, async (): Promise<{ hash: Hex } | { error: string }> => {
+    const wallet = clients.walletClient!;
+    const last = [...(intent.attempts ?? [])].reverse().find(wasSent);
+    if (!last) return { error: 'No pending transaction to replace' };
+
+    let fees: Fees | undefined;
+    try {
+      const bumped = bumpFees(last, await marketFees(clients), feePolicy);
+      if ('error' in bumped) return bumped;
+      fees = bumped;
+      const hash = await wallet.sendTransaction({
+        ...(action === 'speedup'
+          ? { to: intent.account, data: executeCalldata(executionData) }
+          : { to: wallet.account.address, value: BigInt(0) }),
+        nonce: last.nonce,
+        ...fees,
+      });
+      record(intent, { kind: action, hash, nonce: last.nonce, ...fees, at: Date.now() });
+      return { hash };
+    } catch (e) {
+      // Usually "nonce too low": one of the earlier attempts was mined; the tracker will see it
+      record(intent, { kind: action, nonce: last.nonce, ...fees, at: Date.now(), error: errorMessage(e) });
+      return { error: errorMessage(e) };
+    }
+  });
+}
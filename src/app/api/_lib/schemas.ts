@@ -0,0 +1,349 @@
+/**
+ * Runtime schemas for request payloads
+ *
+ * Request bodies arrive as untyped JSON; these parsers check the shapes that end up in
+ * readContract / execute (address, bytes32, uint192, uint256) before any RPC is made, and
+ * return the normalized payload or the first offending field.
+ */
+import { AbiFunction, Hex, isAddress, isHex } from 'viem';
+import type { ProposalAuth } from '@/lib/proposal';
+import { AUTO_SEQ_KEY, MAX_SEQ_KEY } from '@/lib/nonce';
+import type { Intent } from './store';
+import { WEBHOOK_EVENTS, type WebhookEvent } from './webhooks';
+
+export type SchemaError = { error: string; field: string };
+type Parsed<T> = { value: T } | SchemaError;
+
+export type CreatePayload = {
+  account: Hex;
+  chainId: number;
+  externalKeyHash: Hex;
+  seqKey: bigint | typeof AUTO_SEQ_KEY;
+  calls: { to: Hex; value: bigint; data: Hex; abi?: AbiFunction }[];
+  multisigAddress?: Hex;
+  expiresAt?: number;
+  prehash?: boolean;
+  proposal?: ProposalAuth;
+};
+
+export type IntentActionPayload = { proposal?: ProposalAuth };
+
+export type ReplacePayload = IntentActionPayload & { action: 'speedup' | 'cancel' };
+
+export type ChallengePayload = { account: Hex; chainId: number };
+
+export type AdminSessionPayload = { account: Hex; chainId: number; externalKeyHash: Hex; proposal: ProposalAuth };
+
+export type AdminActionPayload = { action: 'expire' | 'sync' };
+
+export type SignPayload = { wrappedSignature: Hex; publicKey?: Hex };
+
+export type WebhookPayload = {
+  url: string;
+  events?: WebhookEvent[];
+  account?: Hex;
+  chainId?: number;
+  externalKeyHash?: Hex;
+  secret?: string;
+};
+
+export type WebhookPatch = { active?: boolean; events?: WebhookEvent[]; url?: string };
+
+const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+// A wrapped Porto signature is at least r, s, the keyHash and the prehash byte
+const MIN_WRAPPED_SIGNATURE_LENGTH = 2 + 64 * 3 + 2;
+
+const fail = (field: string, expected: string): SchemaError => ({ error: `${field} must be ${expected}`, field });
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const isBytes32 = (v: unknown): v is Hex => isHex(v, { strict: true }) && (v as string).length === 66;
+// Uncompressed P-256 public key without the 0x04 prefix, as passkeys are stored on the account
+const isPublicKey = (v: unknown): v is Hex => isHex(v, { strict: true }) && (v as string).length === 2 + 128;
+
+// An ABI parameter: a string `type`, and tuple `components` that are parameters themselves
+const isAbiParameter = (v: unknown): boolean =>
+  isObject(v) &&
+  typeof v.type === 'string' &&
+  (v.name === undefined || typeof v.name === 'string') &&
+  (v.components === undefined || (Array.isArray(v.components) && v.components.every(isAbiParameter)));
+
+const isAbiFunction = (v: unknown): boolean =>
+  isObject(v) &&
+  v.type === 'function' &&
+  typeof v.name === 'string' &&
+  Array.isArray(v.inputs) &&
+  v.inputs.every(isAbiParameter) &&
+  (v.outputs === undefined || (Array.isArray(v.outputs) && v.outputs.every(isAbiParameter)));
+
+/**
+ * Parses an unsigned integer from a safe JS number or a decimal/0x-hex string
+ *
+ * @param v Input value
+ * @param max Largest allowed value
+ * @returns The integer, or undefined when it is malformed, negative or above `max`
+ */
+export function parseUint(v: unknown, max: bigint): bigint | undefined {
+  if (typeof v === 'number' && !Number.isSafeInteger(v)) return undefined;
+  if (typeof v !== 'number' && !(typeof v === 'string' && /^(0x[0-9a-fA-F]+|\d+)$/.test(v.trim()))) return undefined;
+  const n = BigInt(typeof v === 'string' ? v.trim() : v);
+  return n >= BigInt(0) && n <= max ? n : undefined;
+}
+
+// `proposal` field: an owner passkey signature over a challenge (see proposer.ts)
+function parseProposal(proposal: unknown): Parsed<ProposalAuth | undefined> {
+  if (proposal === undefined) return { value: undefined };
+  if (!isObject(proposal)) return fail('proposal', 'an object');
+  if (!isBytes32(proposal.challenge)) return fail('proposal.challenge', 'a bytes32 hex string');
+  if (!isHex(proposal.wrappedSignature, { strict: true })) return fail('proposal.wrappedSignature', 'hex');
+  if (proposal.publicKey !== undefined && !isPublicKey(proposal.publicKey)) {
+    return fail('proposal.publicKey', 'a 64-byte P-256 public key (x ‖ y)');
+  }
+  return {
+    value: {
+      challenge: proposal.challenge,
+      wrappedSignature: proposal.wrappedSignature as Hex,
+      ...(proposal.publicKey !== undefined ? { publicKey: proposal.publicKey as Hex } : {}),
+    },
+  };
+}
+
+/**
+ * POST /api/intents body
+ *
+ * @param body Parsed JSON body
+ * @returns The normalized payload (bigint seqKey and values), or the first invalid field
+ */
+export function parseCreatePayload(body: unknown): Parsed<CreatePayload> {
+  if (!isObject(body)) return fail('body', 'a JSON object');
+  const { account, chainId, externalKeyHash, seqKey = '0', calls, multisigAddress, expiresAt, prehash, proposal } = body;
+
+  if (typeof account !== 'string' || !isAddress(account)) return fail('account', 'an address');
+  const chain = parseUint(chainId, BigInt(Number.MAX_SAFE_INTEGER));
+  if (!chain) return fail('chainId', 'a positive integer');
+  if (!isBytes32(externalKeyHash)) return fail('externalKeyHash', 'a bytes32 hex string');
+  if (multisigAddress !== undefined && (typeof multisigAddress !== 'string' || !isAddress(multisigAddress))) {
+    return fail('multisigAddress', 'an address');
+  }
+
+  const seq = seqKey === AUTO_SEQ_KEY ? AUTO_SEQ_KEY : parseUint(seqKey, MAX_SEQ_KEY);
+  if (seq === undefined) return fail('seqKey', `a uint192 or "${AUTO_SEQ_KEY}"`);
+
+  if (expiresAt !== undefined && (typeof expiresAt !== 'number' || !Number.isSafeInteger(expiresAt) || expiresAt <= Date.now())) {
+    return fail('expiresAt', 'a future timestamp in ms');
+  }
+  if (prehash !== undefined && typeof prehash !== 'boolean') return fail('prehash', 'a boolean');
+
+  if (!Array.isArray(calls) || calls.length === 0) return fail('calls', 'a non-empty array');
+  const parsedCalls: CreatePayload['calls'] = [];
+  for (const [i, c] of calls.entries()) {
+    const at = `calls[${i}]`;
+    if (!isObject(c)) return fail(at, 'an object');
+    if (typeof c.to !== 'string' || !isAddress(c.to)) return fail(`${at}.to`, 'an address');
+    const value = parseUint(c.value ?? 0, MAX_UINT256);
+    if (value === undefined) return fail(`${at}.value`, 'a uint256');
+    if (!isHex(c.data, { strict: true }) || (c.data as string).length % 2 !== 0) return fail(`${at}.data`, '0x-prefixed hex bytes');
+    if (c.abi !== undefined && !isAbiFunction(c.abi)) {
+      return fail(`${at}.abi`, 'a function fragment with typed inputs');
+    }
+    parsedCalls.push({
+      to: c.to,
+      value,
+      data: c.data as Hex,
+      ...(c.abi ? { abi: c.abi as unknown as AbiFunction } : {}),
+    });
+  }
+
+  const parsedProposal = parseProposal(proposal);
+  if ('error' in parsedProposal) return parsedProposal;
+  const auth = parsedProposal.value;
+
+  return {
+    value: {
+      account,
+      chainId: Number(chain),
+      externalKeyHash,
+      seqKey: seq,
+      calls: parsedCalls,
+      ...(multisigAddress ? { multisigAddress: multisigAddress as Hex } : {}),
+      ...(expiresAt !== undefined ? { expiresAt: expiresAt as number } : {}),
+      ...(prehash ? { prehash: true } : {}),
+      ...(auth ? { proposal: auth } : {}),
+    },
+  };
+}
+
+/**
+ * Body of the caller-authenticated actions on an existing intent (cancel, rebase)
+ *
+ * @param body Parsed JSON body (a missing body counts as `{}`)
+ * @returns { proposal? }, or the invalid field
+ */
+export function parseIntentActionPayload(body: unknown): Parsed<IntentActionPayload> {
+  if (body === undefined) return { value: {} };
+  if (!isObject(body)) return fail('body', 'a JSON object');
+  const proposal = parseProposal(body.proposal);
+  if ('error' in proposal) return proposal;
+  return { value: proposal.value ? { proposal: proposal.value } : {} };
+}
+
+/**
+ * POST /api/intents/[id]/replace body
+ *
+ * @param body Parsed JSON body
+ * @returns { action, proposal? }, or the invalid field
+ */
+export function parseReplacePayload(body: unknown): Parsed<ReplacePayload> {
+  if (!isObject(body)) return fail('body', 'a JSON object');
+  if (body.action !== 'speedup' && body.action !== 'cancel') return fail('action', "'speedup' or 'cancel'");
+  const proposal = parseProposal(body.proposal);
+  if ('error' in proposal) return proposal;
+  return { value: { action: body.action, ...(proposal.value ? { proposal: proposal.value } : {}) } };
+}
+
+/**
+ * POST /api/intents/challenge body
+ *
+ * @param body Parsed JSON body
+ * @returns { account, chainId }, or the invalid field
+ */
+export function parseChallengePayload(body: unknown): Parsed<ChallengePayload> {
+  if (!isObject(body)) return fail('body', 'a JSON object');
+  const { account, chainId } = body;
+  if (typeof account !== 'string' || !isAddress(account)) return fail('account', 'an address');
+  const chain = parseUint(chainId, BigInt(Number.MAX_SAFE_INTEGER));
+  if (!chain) return fail('chainId', 'a positive integer');
+  return { value: { account, chainId: Number(chain) } };
+}
+
+/**
+ * POST /api/admin/session body
+ *
+ * @param body Parsed JSON body
+ * @returns { account, chainId, externalKeyHash, proposal }, or the invalid field
+ */
+export function parseAdminSessionPayload(body: unknown): Parsed<AdminSessionPayload> {
+  if (!isObject(body)) return fail('body', 'a JSON object');
+  const { account, chainId, externalKeyHash } = body;
+  if (typeof account !== 'string' || !isAddress(account)) return fail('account', 'an address');
+  const chain = parseUint(chainId, BigInt(Number.MAX_SAFE_INTEGER));
+  if (!chain) return fail('chainId', 'a positive integer');
+  if (!isBytes32(externalKeyHash)) return fail('externalKeyHash', 'a bytes32 hex string');
+  const proposal = parseProposal(body.proposal);
+  if ('error' in proposal) return proposal;
+  if (!proposal.value) return fail('proposal', 'an object');
+  return { value: { account, chainId: Number(chain), externalKeyHash, proposal: proposal.value } };
+}
+
+/**
+ * POST /api/admin/intents/[id] body
+ *
+ * @param body Parsed JSON body
+ * @returns { action }, or the invalid field
+ */
+export function parseAdminActionPayload(body: unknown): Parsed<AdminActionPayload> {
+  if (!isObject(body)) return fail('body', 'a JSON object');
+  if (body.action !== 'expire' && body.action !== 'sync') return fail('action', "'expire' or 'sync'");
+  return { value: { action: body.action } };
+}
+
+/**
+ * POST /api/intents/[id]/sign body
+ *
+ * @param body Parsed JSON body
+ * @returns { wrappedSignature, publicKey? }, or the invalid field
+ */
+export function parseSignPayload(body: unknown): Parsed<SignPayload> {
+  if (!isObject(body)) return fail('body', 'a JSON object');
+  const { wrappedSignature, publicKey } = body;
+  if (!isHex(wrappedSignature, { strict: true }) || (wrappedSignature as string).length < MIN_WRAPPED_SIGNATURE_LENGTH) {
+    return fail('wrappedSignature', 'a wrapped Porto signature (hex)');
+  }
+  if (publicKey !== undefined && !isPublicKey(publicKey)) return fail('publicKey', 'a 64-byte P-256 public key (x ‖ y)');
+  return {
+    value: {
+      wrappedSignature: wrappedSignature as Hex,
+      ...(publicKey !== undefined ? { publicKey: publicKey as Hex } : {}),
+    },
+  };
+}
+
+/**
+ * What POST /api/intents/[id]/submit sends on-chain, checked before any RPC
+ *
+ * Submit takes no body; the payload is the stored intent. Intents created before these
+ * schemas existed may carry shapes that would only fail inside viem.
+ *
+ * @param intent The stored intent
+ * @returns The intent, or the invalid field
+ */
+export function parseSubmitPayload(intent: Intent): Parsed<Intent> {
+  if (!isAddress(intent.account)) return fail('account', 'an address');
+  if (parseUint(String(intent.seqKey), MAX_SEQ_KEY) === undefined) return fail('seqKey', 'a uint192');
+  if (parseUint(String(intent.nonce), MAX_UINT256) === undefined) return fail('nonce', 'a uint256');
+  for (const [i, c] of intent.calls.entries()) {
+    if (!isAddress(c.to)) return fail(`calls[${i}].to`, 'an address');
+    if (parseUint(String(c.value), MAX_UINT256) === undefined) return fail(`calls[${i}].value`, 'a uint256');
+    if (!isHex(c.data, { strict: true })) return fail(`calls[${i}].data`, 'hex');
+  }
+  for (const [i, s] of intent.signatures.entries()) {
+    if (!isBytes32(s.ownerKeyHash)) return fail(`signatures[${i}].ownerKeyHash`, 'a bytes32 hex string');
+    if (!isHex(s.sig, { strict: true })) return fail(`signatures[${i}].sig`, 'hex');
+  }
+  return { value: intent };
+}
+
+const isHttpUrl = (v: unknown): v is string => typeof v === 'string' && /^https?:\/\//.test(v);
+const isWebhookEvents = (v: unknown): v is WebhookEvent[] =>
+  Array.isArray(v) && v.every((e) => WEBHOOK_EVENTS.includes(e as WebhookEvent));
+
+/**
+ * POST /api/webhooks body (the URL's target is checked separately, see checkWebhookUrl)
+ *
+ * @param body Parsed JSON body
+ * @returns { url, events?, account?, chainId?, externalKeyHash?, secret? }, or the invalid field
+ */
+export function parseWebhookPayload(body: unknown): Parsed<WebhookPayload> {
+  if (!isObject(body)) return fail('body', 'a JSON object');
+  const { url, events, account, chainId, externalKeyHash, secret } = body;
+  if (!isHttpUrl(url)) return fail('url', 'an http(s) URL');
+  if (events !== undefined && !isWebhookEvents(events)) return fail('events', `a list of ${WEBHOOK_EVENTS.join(', ')}`);
+  if (account !== undefined && (typeof account !== 'string' || !isAddress(account))) return fail('account', 'an address');
+  const chain = chainId === undefined ? undefined : parseUint(chainId, BigInt(Number.MAX_SAFE_INTEGER));
+  if (chainId !== undefined && !chain) return fail('chainId', 'a positive integer');
+  if (externalKeyHash !== undefined && !isBytes32(externalKeyHash)) return fail('externalKeyHash', 'a bytes32 hex string');
+  if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) return fail('secret', 'at least 16 characters');
+  return {
+    value: {
+      url,
+      ...(events !== undefined ? { events } : {}),
+      ...(account !== undefined ? { account: account as Hex } : {}),
+      ...(chain ? { chainId: Number(chain) } : {}),
+      ...(externalKeyHash !== undefined ? { externalKeyHash } : {}),
+      ...(secret !== undefined ? { secret: secret as string } : {}),
+    },
+  };
+}
+
+/**
+ * PATCH /api/webhooks/[id] body
+ *
+ * @param body Parsed JSON body
+ * @returns { active?, events?, url? }, or the invalid field
+ */
+export function parseWebhookPatch(body: unknown): Parsed<WebhookPatch> {
+  if (!isObject(body)) return fail('body', 'a JSON object');
+  const { active, events, url } = body;
+  if (active !== undefined && typeof active !== 'boolean') return fail('active', 'a boolean');
+  if (events !== undefined && (!isWebhookEvents(events) || !events.length)) {
+    return fail('events', `a non-empty subset of ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+  if (url !== undefined && !isHttpUrl(url)) return fail('url', 'an http(s) URL');
+  return {
+    value: {
+      ...(active !== undefined ? { active } : {}),
+      ...(events !== undefined ? { events } : {}),
+      ...(url !== undefined ? { url } : {}),
+    },
+  };
+}
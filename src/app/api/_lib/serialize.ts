@@ -0,0 +1,32 @@
+import type { Intent } from './store';
+import { signingDigest } from './aggregate';
+
+/**
+ * Converts an Intent into a JSON-safe object (BigInt values become decimal strings)
+ *
+ * @param intent The stored intent
+ * @returns The intent as returned by the API
+ */
+export const serializeIntent = (intent: Intent) => ({
+  ...intent,
+  seqKey: intent.seqKey.toString(),
+  nonce: intent.nonce.toString(),
+  signingDigest: signingDigest(intent), // what owners sign: the digest, or its sha256 for prehash intents
+  calls: intent.calls.map(call => ({
+    ...call,
+    value: call.value.toString()
+  })),
+  attempts: intent.attempts?.map((a) => ({
+    ...a,
+    maxFeePerGas: a.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: a.maxPriorityFeePerGas?.toString(),
+  })),
+  events: undefined, // served by GET /api/intents/[id]/events
+  receipt: intent.receipt && {
+    blockNumber: intent.receipt.blockNumber.toString(),
+    gasUsed: intent.receipt.gasUsed.toString(),
+    effectiveGasPrice: intent.receipt.effectiveGasPrice.toString(),
+  },
+});
+
+export type SerializedIntent = ReturnType<typeof serializeIntent>;
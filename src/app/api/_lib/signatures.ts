@@ -0,0 +1,167 @@
+/**
+ * Wrapped Porto signature checks shared by intent signing and proposer authentication
+ *
+ * A wrapped signature is `inner ‖ keyHash (32 bytes) ‖ prehash (1 byte)`. For P-256 and
+ * WebAuthn P-256 keys the inner signature is verified locally with ox against the key's
+ * public key (see keys.ts), trying the signed digest and its sha256 (the prehash variant);
+ * whichever verifies fixes the prehash byte. Keys the server can't resolve, and other key
+ * types, fall back to the account's unwrapAndValidateSignature. With
+ * SIGNATURE_ONCHAIN_CHECK=true a locally verified signature is also confirmed on-chain.
+ */
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  Hex,
+  concat,
+  decodeAbiParameters,
+  hexToBigInt,
+  sha256,
+  size,
+  slice,
+} from 'viem';
+import { P256, PublicKey, WebAuthnP256 } from 'ox';
+import { accountAbi } from '@/lib/abi/account';
+import { KEY_TYPE_P256, KEY_TYPE_WEBAUTHN_P256, keyRecord, lookupKey, type RegisteredKey } from './keys';
+import type { ChainClients } from './viem';
+
+export type SignatureCheck = {
+  ok: boolean;
+  ownerKh: Hex;
+  sig: Hex;                    // the wrapped signature with the prehash byte that verified
+  reason?: 'invalid' | 'rpc';  // set when !ok: a bad signature, or the chain couldn't be asked
+  via?: 'local' | 'onchain';
+  newKey?: RegisteredKey;      // the caller's public key, when it verified the signature; callers register it once the signer is an owner
+};
+
+const WEBAUTHN_AUTH = [
+  {
+    type: 'tuple',
+    components: [
+      { name: 'authenticatorData', type: 'bytes' },
+      { name: 'clientDataJSON', type: 'string' },
+      { name: 'challengeIndex', type: 'uint256' },
+      { name: 'typeIndex', type: 'uint256' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' },
+    ],
+  },
+] as const;
+
+/**
+ * Splits a wrapped Porto signature
+ *
+ * @param wrapped `inner ‖ keyHash ‖ prehash`
+ * @returns The parts, or undefined when it is too short or the prehash byte isn't 0/1
+ */
+export function unwrapSignature(wrapped: Hex) {
+  if (size(wrapped) < 33 + 64) return undefined;
+  const flag = slice(wrapped, -1);
+  if (flag !== '0x00' && flag !== '0x01') return undefined;
+  return { inner: slice(wrapped, 0, -33), keyHash: slice(wrapped, -33, -1), prehash: flag === '0x01' };
+}
+
+const rewrap = (inner: Hex, keyHash: Hex, prehash: boolean) =>
+  concat([inner, keyHash, prehash ? '0x01' : '0x00']);
+
+// Verifies the inner signature over `challenge` (the digest, or its sha256 when prehashed)
+function verifyInner(key: RegisteredKey, inner: Hex, challenge: Hex): boolean {
+  const publicKey = PublicKey.from({
+    prefix: 4,
+    x: hexToBigInt(slice(key.publicKey, 0, 32)),
+    y: hexToBigInt(slice(key.publicKey, 32, 64)),
+  });
+  try {
+    if (key.keyType === KEY_TYPE_WEBAUTHN_P256) {
+      const [auth] = decodeAbiParameters(WEBAUTHN_AUTH, inner);
+      return WebAuthnP256.verify({
+        challenge,
+        publicKey,
+        signature: { r: hexToBigInt(auth.r), s: hexToBigInt(auth.s) },
+        metadata: {
+          authenticatorData: auth.authenticatorData,
+          clientDataJSON: auth.clientDataJSON,
+          challengeIndex: Number(auth.challengeIndex),
+          typeIndex: Number(auth.typeIndex),
+          userVerificationRequired: false,
+        },
+      });
+    }
+    if (size(inner) !== 64) return false;
+    return P256.verify({
+      hash: false,
+      payload: challenge,
+      publicKey,
+      signature: { r: hexToBigInt(slice(inner, 0, 32)), s: hexToBigInt(slice(inner, 32, 64)) },
+    });
+  } catch {
+    return false; // undecodable inner signature
+  }
+}
+
+// A revert means the account rejected the signature; anything else is the RPC failing
+const isRevert = (e: unknown) =>
+  e instanceof BaseError && !!e.walk((err) => err instanceof ContractFunctionRevertedError);
+
+async function validateOnChain(
+  publicClient: ChainClients['publicClient'],
+  account: Hex,
+  digest: Hex,
+  sig: Hex,
+): Promise<SignatureCheck> {
+  try {
+    const [ok, ownerKh] = (await publicClient.readContract({
+      address: account,
+      abi: accountAbi,
+      functionName: 'unwrapAndValidateSignature',
+      args: [digest, sig],
+    })) as [boolean, Hex];
+    return { ok, ownerKh, sig, via: 'onchain', ...(ok ? {} : { reason: 'invalid' as const }) };
+  } catch (e) {
+    return { ok: false, ownerKh: '0x', sig, via: 'onchain', reason: isRevert(e) ? 'invalid' : 'rpc' };
+  }
+}
+
+/**
+ * Validates a wrapped Porto signature for an account
+ *
+ * Verified locally when the key is known (no RPC once the key is registered); otherwise
+ * through unwrapAndValidateSignature with the given prehash byte, then the flipped one.
+ *
+ * @param publicClient Client for the account's chain
+ * @param account The account address to validate against
+ * @param digest The digest that was signed
+ * @param wrapped The wrapped signature from Porto
+ * @param publicKey WebAuthn P-256 public key sent by the signer (used when it hashes to the signature's key hash)
+ * @returns The result, the signer's key hash and the signature to store
+ */
+export async function validateWrappedSignature(
+  publicClient: ChainClients['publicClient'],
+  account: Hex,
+  digest: Hex,
+  wrapped: Hex,
+  publicKey?: Hex,
+): Promise<SignatureCheck> {
+  const parts = unwrapSignature(wrapped);
+  if (!parts) return { ok: false, ownerKh: '0x', sig: wrapped, reason: 'invalid' };
+  const { inner, keyHash, prehash } = parts;
+
+  const offered = publicKey ? keyRecord(KEY_TYPE_WEBAUTHN_P256, publicKey) : undefined;
+  const key = offered?.id === keyHash.toLowerCase() ? offered : await lookupKey(publicClient, account, keyHash);
+  if (key && (key.keyType === KEY_TYPE_P256 || key.keyType === KEY_TYPE_WEBAUTHN_P256)) {
+    // The flag the signer claimed first; the other one only if that fails
+    const settled = [prehash, !prehash].find((p) => verifyInner(key, inner, p ? sha256(digest) : digest));
+    if (settled === undefined) return { ok: false, ownerKh: keyHash, sig: wrapped, reason: 'invalid', via: 'local' };
+
+    const sig = rewrap(inner, keyHash, settled);
+    const verified: SignatureCheck =
+      process.env.SIGNATURE_ONCHAIN_CHECK === 'true'
+        ? await validateOnChain(publicClient, account, digest, sig)
+        : { ok: true, ownerKh: keyHash, sig, via: 'local' };
+    return verified.ok && key === offered ? { ...verified, newKey: offered } : verified;
+  }
+
+  const first = await validateOnChain(publicClient, account, digest, wrapped);
+  if (first.ok || first.reason === 'rpc') return first;
+  const flipped = await validateOnChain(publicClient, account, digest, rewrap(inner, keyHash, !prehash));
+  return flipped.ok ? flipped : first;
+}
@@ -0,0 +1,111 @@
+/**
+ * Dry-runs an intent with eth_call before anyone pays gas
+ *
+ * With enough signatures the real execute(MODE_SINGLE_WITH_OPDATA, executionData) is
+ * simulated, which covers signature checks, nonce, call permissions and spend limits.
+ * Before that, each call is checked with canExecute for the multisig key and the batch is
+ * run as a self-call (MODE_SINGLE_NO_OPDATA); spend limits are only enforced in full mode.
+ *
+ * Simulating has no side effects, so viewers can re-run it freely; only the run made at
+ * submit is stored on the intent and logged (recordSimulation).
+ */
+import { logEvent, setIntent, type Intent } from './store';
+import type { ChainClients } from './viem';
+import { MODE_SINGLE_NO_OPDATA, MODE_SINGLE_WITH_OPDATA } from './viem';
+import { buildCallsOnlyExecutionData, buildExecutionData } from './execution';
+import { aggregateSignatures } from './aggregate';
+import { accountAbi } from '@/lib/abi/account';
+import { abi as accountJsonAbi } from '@/../abis/IthacaAccount.json';
+import { decodeRevert, type DecodedRevert } from '@/lib/reverts';
+
+export type Simulation = {
+  ok: boolean;
+  mode: 'full' | 'calls';      // full = signed execute; calls = permissions + self-call dry run
+  revert?: DecodedRevert;
+  failedCall?: number;         // index of the call refused by canExecute
+  at: number;                  // ms since epoch
+};
+
+/**
+ * Stores a simulation on the intent and adds it to the audit log
+ *
+ * @param id Intent the simulation was run for
+ * @param result The simulation result
+ */
+export function recordSimulation(id: string, result: Simulation) {
+  setIntent(id, { simulation: result });
+  logEvent(id, {
+    type: 'simulated',
+    detail: result.ok ? `Would succeed (${result.mode})` : `Would revert (${result.mode}): ${result.revert?.description ?? 'unknown reason'}`,
+  });
+}
+
+/**
+ * Simulates an intent (read-only)
+ *
+ * @param intent The intent to simulate
+ * @param clients Clients for the intent's chain (the relayer is used as sender in full mode)
+ * @returns The simulation result
+ */
+export async function simulateIntent(intent: Intent, clients: ChainClients): Promise<Simulation> {
+  const { publicClient, walletClient } = clients;
+  const full = aggregateSignatures(intent).complete;
+  return full ? simulateFull() : simulateCalls();
+
+  async function simulateFull(): Promise<Simulation> {
+    try {
+      await publicClient.simulateContract({
+        address: intent.account,
+        abi: accountJsonAbi,
+        functionName: 'execute',
+        args: [MODE_SINGLE_WITH_OPDATA, buildExecutionData(intent)],
+        account: walletClient?.account,
+      });
+      return { ok: true, mode: 'full', at: Date.now() };
+    } catch (e) {
+      return { ok: false, mode: 'full', revert: decodeRevert(e), at: Date.now() };
+    }
+  }
+
+  async function simulateCalls(): Promise<Simulation> {
+    try {
+      const allowed = await Promise.all(
+        intent.calls.map(
+          (c) =>
+            publicClient.readContract({
+              address: intent.account,
+              abi: accountJsonAbi,
+              functionName: 'canExecute',
+              args: [intent.externalKeyHash, c.to, c.data],
+            }) as Promise<boolean>,
+        ),
+      );
+      const refused = allowed.findIndex((ok) => !ok);
+      if (refused !== -1) {
+        const c = intent.calls[refused];
+        return {
+          ok: false,
+          mode: 'calls',
+          failedCall: refused,
+          revert: {
+            name: 'UnauthorizedCall',
+            args: [intent.externalKeyHash, c.to, c.data],
+            description: `Call #${refused + 1}: the multisig key is not allowed to call ${c.to} with this selector (setCanExecute).`,
+          },
+          at: Date.now(),
+        };
+      }
+
+      await publicClient.simulateContract({
+        address: intent.account,
+        abi: accountAbi,
+        functionName: 'execute',
+        args: [MODE_SINGLE_NO_OPDATA, buildCallsOnlyExecutionData(intent)],
+        account: intent.account,
+      });
+      return { ok: true, mode: 'calls', at: Date.now() };
+    } catch (e) {
+      return { ok: false, mode: 'calls', revert: decodeRevert(e), at: Date.now() };
+    }
+  }
+}
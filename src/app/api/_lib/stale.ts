@@ -0,0 +1,60 @@
+/**
+ * Stale-intent detection
+ *
+ * An intent is stale once its lane's on-chain nonce has moved past `intent.nonce` (another
+ * transaction used it): the digest can never execute. Stale intents are marked so the UI can
+ * offer a rebase instead of failing at submit.
+ */
+import { getIntent, logEvent, updateIntent, type Intent } from './store';
+import { getClients } from './viem';
+import { accountAbi } from '@/lib/abi/account';
+
+const readLaneNonce = async (i: Intent) => {
+  const clients = getClients(i.chainId);
+  if (!clients) return undefined;
+  return (await clients.publicClient.readContract({
+    address: i.account,
+    abi: accountAbi,
+    functionName: 'getNonce',
+    args: [BigInt(i.seqKey)],
+  })) as bigint;
+};
+
+const laneKey = (i: Intent) => `${i.chainId}:${i.account.toLowerCase()}:${BigInt(i.seqKey)}`;
+
+/**
+ * Marks collecting intents whose lane nonce has moved on as 'stale'
+ *
+ * Reads each lane once. RPC failures leave intents untouched so listing never fails on them.
+ *
+ * @param intents Intents to check (non-collecting ones are returned as is)
+ * @returns The same intents with refreshed status
+ */
+export async function refreshStale(intents: Intent[]): Promise<Intent[]> {
+  const lanes = new Map<string, Promise<bigint | undefined>>();
+  for (const i of intents) {
+    if (i.status !== 'collecting' || lanes.has(laneKey(i))) continue;
+    lanes.set(laneKey(i), readLaneNonce(i).catch(() => undefined));
+  }
+
+  return Promise.all(
+    intents.map(async (i) => {
+      if (i.status !== 'collecting') return i;
+      const current = await lanes.get(laneKey(i));
+      if (current === undefined || current === BigInt(i.nonce)) return i;
+      // Only if still collecting: a submit, cancel or receipt may have moved it during the read
+      const marked = updateIntent(i.id, (now) => (now.status === 'collecting' ? { ...now, status: 'stale' } : undefined));
+      if (!marked) return getIntent(i.id) ?? i;
+      logEvent(i.id, { type: 'stale', detail: `Lane nonce moved to ${current} (intent has ${BigInt(i.nonce)})` });
+      return getIntent(i.id) ?? i;
+    }),
+  );
+}
+
+/**
+ * Single-intent form of refreshStale
+ *
+ * @param intent The intent to check
+ * @returns The intent with refreshed status
+ */
+export const refreshStaleOne = async (intent: Intent) => (await refreshStale([intent]))[0];
@@ -1,6 +1,62 @@
-import type { Hex } from 'viem';
+import type { AbiFunction, Hex } from 'viem';
+import { createBackend } from './db';
+import type { TokenMeta } from '@/lib/erc20';
+import type { Simulation } from './simulate';
 
-export type Call = { to: Hex; value: bigint | number | string; data: Hex };
+export type Call = {
+  to: Hex;
+  value: bigint | number | string;
+  data: Hex;
+  abi?: AbiFunction;           // function fragment the calldata was checked against (display only)
+  token?: TokenMeta;           // set when the call is an ERC-20 transfer/approve/transferFrom
+};
+// One relayer transaction sent for an intent (see relayer.ts)
+export type RelayAttempt = {
+  kind: 'submit' | 'speedup' | 'cancel';
+  hash?: Hex;                  // missing when the send itself failed
+  nonce?: number;              // relayer account nonce; nonce and fees are missing when reading them failed
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  at: number;
+  error?: string;
+};
+// Authenticated proposer of an intent (see proposer.ts)
+export type Proposer = {
+  keyHash: Hex;                // account key that signed the proposal challenge
+  owner: boolean;              // false only under an open PROPOSAL_POLICY
+  at: number;                  // ms since epoch, when the proposal was verified
+};
+// Owner removals / threshold raises seen on-chain after the intent was proposed (see config.ts)
+export type ConfigDrift = {
+  removedOwners: Hex[];        // owners of the proposal-time config that getConfig no longer lists
+  thresholdBefore: number;     // threshold when the intent was proposed
+  droppedSignatures: Hex[];    // owners whose collected signatures were discarded
+  at: number;                  // ms since epoch, when the latest change was detected
+};
+// One entry of an intent's append-only audit log (see logEvent)
+export type IntentEventType =
+  | 'created'
+  | 'signature_accepted'
+  | 'signature_rejected'
+  | 'simulated'
+  | 'submit_rejected'
+  | 'submitted'
+  | 'replaced'
+  | 'confirmed'
+  | 'failed'
+  | 'reopened'
+  | 'cancelled'
+  | 'expired'
+  | 'stale'
+  | 'rebased'
+  | 'config_changed';
+export type IntentEvent = {
+  type: IntentEventType;
+  at: number;                  // ms since epoch
+  actor?: string;              // owner keyHash, relayer address, ... when known
+  detail?: string;             // human-readable reason or summary
+  txHash?: Hex;
+};
 export type Intent = {
   id: string;
   account: Hex;
@@ -9,33 +65,120 @@ export type Intent = {
   seqKey: bigint;              // uint192
   nonce: bigint;               // full uint256 nonce
   digest: Hex;                 // bytes32
+  prehash?: boolean;           // owners sign sha256(digest) and the multisig signature's prehash byte is set (see aggregate.ts)
   calls: Call[];
-  threshold: number;
+  threshold: number;           // kept in sync with getConfig at sign and submit (config.ts)
   owners: Hex[];               // owner keyHashes from on-chain config
   signatures: { ownerKeyHash: Hex; sig: Hex; at: number }[];
-  status: 'collecting' | 'submitted' | 'confirmed' | 'failed';
+  status: 'collecting' | 'submitting' | 'submitted' | 'confirmed' | 'failed' | 'cancelled' | 'expired' | 'stale';
+  submitClaim?: { at: number; from: Intent['status'] }; // held by the submit request in flight (`submitting`)
   txHash?: Hex;
+  submittedAt?: number;        // ms since epoch, when txHash was broadcast
+  receipt?: { blockNumber: bigint; gasUsed: bigint; effectiveGasPrice: bigint };
+  attempts?: RelayAttempt[];   // every relayer send, in order; txHash is the one that was mined (or the latest)
+  createdAt: number;           // ms since epoch
+  expiresAt?: number;          // ms since epoch; collecting intents past this become 'expired'
+  multisig?: Hex;              // MultisigSigner the owners/threshold were read from
+  cancelledBy?: string;        // id of the invalidateNonce intent proposed when this one was cancelled
+  cancels?: string;            // on an invalidateNonce intent: the id of the intent it cancels
+  rebasedTo?: string;          // id of the intent that re-proposed these calls at the current nonce
+  rebasedFrom?: string;        // id of the stale intent this one was rebased from
+  simulation?: Simulation;     // last eth_call dry run (see simulate.ts)
+  configDrift?: ConfigDrift;   // set once owners were removed or the threshold raised
+  proposer?: Proposer;         // the authenticated caller; missing for anonymous (open policy) proposals
+  events?: IntentEvent[];      // append-only audit log, written only through logEvent
+};
+
+// Backend is chosen by INTENT_STORE (see db.ts); routes only use the helpers below
+const DB = createBackend<Intent>();
+
+// Change listeners for live updates (stream route); on globalThis so dev reloads share them
+const listeners = (() => {
+  const g = globalThis as unknown as { intentListeners?: Set<(id: string) => void> };
+  g.intentListeners ??= new Set();
+  return g.intentListeners;
+})();
+
+const notify = (id: string) => {
+  for (const fn of listeners) fn(id);
 };
 
-// Use global to persist across module reloads in development
-const globalForDB = globalThis as unknown as {
-  intentDB: Map<string, Intent> | undefined;
+const put = (i: Intent) => {
+  DB.put(i);
+  notify(i.id);
 };
 
-const DB = globalForDB.intentDB ?? new Map<string, Intent>();
-if (!globalForDB.intentDB) {
-  globalForDB.intentDB = DB;
+/**
+ * Subscribes to writes made by this process
+ *
+ * @param fn Called with the id of every intent written
+ * @returns Unsubscribe function
+ */
+export const onIntentChange = (fn: (id: string) => void) => {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+};
+
+const isDue = (i: Intent) => i.status === 'collecting' && !!i.expiresAt && i.expiresAt <= Date.now();
+
+// Expiry is applied lazily: the first read after expiresAt persists the 'expired' status
+const expireIfDue = (i: Intent): Intent => {
+  if (!isDue(i)) return i;
+  return (
+    updateIntent(i.id, (now) =>
+      isDue(now)
+        ? {
+            ...now,
+            status: 'expired',
+            events: [...(now.events ?? []), { type: 'expired', at: Date.now(), detail: `Expired at ${new Date(now.expiresAt!).toISOString()}` }],
+          }
+        : undefined,
+    ) ?? DB.get(i.id) ?? i
+  );
+};
+
+/**
+ * Read-modify-write of one intent against its latest stored version
+ *
+ * Use this (not getIntent + setIntent) whenever the new value depends on the old one, e.g.
+ * appending a signature: another request or instance may have written in between.
+ *
+ * @param id Intent id
+ * @param fn Returns the new intent, or undefined to leave it untouched
+ * @returns The stored intent, or undefined when nothing was written
+ */
+export function updateIntent(id: string, fn: (current: Intent) => Intent | undefined) {
+  const next = DB.update(id, fn);
+  if (next) notify(id);
+  return next;
 }
+
 export const upsertIntent = (i: Intent) => {
-  DB.set(i.id, i);
+  put(i);
   return i;
 };
 export const getIntent = (id: string) => {
-  return DB.get(id);
+  const i = DB.get(id);
+  return i && expireIfDue(i);
 };
 export const setIntent = (id: string, patch: Partial<Intent>) => {
-  const now = DB.get(id);
-  if (!now) return;
-  DB.set(id, { ...now, ...patch });
+  updateIntent(id, (now) => ({ ...now, ...patch }));
+};
+export const getAllIntents = () => {
+  const all = DB.all();
+  const out = new Map<string, Intent>();
+  for (const [id, i] of all) out.set(id, expireIfDue(i));
+  return out;
+};
+
+/**
+ * Appends an entry to an intent's audit log (never rewrites earlier entries)
+ *
+ * @param id Intent id
+ * @param event Event type plus optional actor, detail and txHash
+ */
+export const logEvent = (id: string, event: Omit<IntentEvent, 'at'>) => {
+  updateIntent(id, (now) => ({ ...now, events: [...(now.events ?? []), { ...event, at: Date.now() }] }));
 };
-export const getAllIntents = () => DB;
\ No newline at end of file
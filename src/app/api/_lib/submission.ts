@@ -0,0 +1,54 @@
+/**
+ * Submission
+ *
+ * Owners sign the account's computeDigest(calls, nonce) and the server's relayer key calls
+ * account.execute with the aggregated signature (see relayer.ts). Creating and submitting an
+ * intent only go through the two functions here, so another way of executing a signed intent
+ * has one place to plug in.
+ */
+import { Hex } from 'viem';
+import { accountAbi } from '@/lib/abi/account';
+import type { Call, Intent } from './store';
+import type { ChainClients } from './viem';
+import type { Failure } from './errors';
+import { buildExecutionData, toCallStructs } from './execution';
+import { relayExecute } from './relayer';
+
+const errorMessage = (e: unknown) =>
+  (e as { shortMessage?: string })?.shortMessage ?? (e instanceof Error ? e.message : String(e));
+
+/**
+ * Digest the owners have to sign for a new intent
+ *
+ * @param publicClient Client for the intent's chain
+ * @param params Account, calls and the lane nonce the intent will use
+ * @returns The digest, or a Failure (UPSTREAM_ERROR)
+ */
+export async function prepareDigest(
+  publicClient: ChainClients['publicClient'],
+  params: { account: Hex; calls: Call[]; nonce: bigint },
+): Promise<{ digest: Hex } | Failure> {
+  const { account, calls, nonce } = params;
+
+  try {
+    const digest = (await publicClient.readContract({
+      address: account,
+      abi: accountAbi,
+      functionName: 'computeDigest',
+      args: [toCallStructs(calls), nonce],
+    })) as Hex;
+    return { digest };
+  } catch (e) {
+    return { error: `computeDigest failed: ${errorMessage(e)}`, code: 'UPSTREAM_ERROR', status: 502 };
+  }
+}
+
+/**
+ * Executes a fully signed intent
+ *
+ * @param intent Intent with at least `threshold` signatures
+ * @param clients Clients for the intent's chain (walletClient required)
+ * @returns The tx hash, or an error
+ */
+export const submitIntent = (intent: Intent, clients: ChainClients): Promise<{ hash: Hex } | { error: string }> =>
+  relayExecute(intent, clients, buildExecutionData(intent));
@@ -0,0 +1,31 @@
+import { Hex, erc20Abi } from 'viem';
+import { getClients } from './viem';
+import type { TokenMeta } from '@/lib/erc20';
+
+// symbol/decimals never change for a deployed token, so cache them for the process lifetime
+const cache = new Map<string, TokenMeta>();
+
+/**
+ * Reads ERC-20 symbol and decimals through the server publicClient of the given chain
+ *
+ * @param chainId Chain the token is deployed on
+ * @param token Token contract address
+ * @returns Token metadata; throws if the contract does not implement both views
+ */
+export async function readTokenMeta(chainId: number, token: Hex): Promise<TokenMeta> {
+  const key = `${chainId}:${token.toLowerCase()}`;
+  const hit = cache.get(key);
+  if (hit) return hit;
+
+  const clients = getClients(chainId);
+  if (!clients) throw new Error(`Unsupported chain ${chainId}`);
+  const { publicClient } = clients;
+
+  const [symbol, decimals] = await Promise.all([
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+    publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+  ]);
+  const meta = { symbol, decimals };
+  cache.set(key, meta);
+  return meta;
+}
@@ -0,0 +1,127 @@
+/**
+ * Background receipt tracker
+ *
+ * Submission returns as soon as the transaction is broadcast. This poller picks up every
+ * `submitted` intent with a txHash and moves it to `confirmed` or `failed` once a receipt for
+ * any of its relayer attempts exists, recording block number, gas used and effective gas
+ * price. It reads its work list from the store on every tick, so it resumes after a restart
+ * (started from instrumentation.ts). A poll that finds nothing writes nothing: its time is only kept in
+ * memory (lastCheckedAt), so pending intents don't rewrite the store or wake streams every tick.
+ *
+ * Every server instance runs its own poller over the shared store. Outcomes are written with
+ * updateIntent only while the intent is still `submitted` with the txHash the poll started
+ * from, so instances (and concurrent routes) never overwrite each other.
+ */
+import { TransactionReceiptNotFoundError } from 'viem';
+import { getAllIntents, getIntent, logEvent, updateIntent, type Intent } from './store';
+import { emitWebhook } from './webhooks';
+import { getClients } from './viem';
+
+const POLL_MS = Number(process.env.RECEIPT_POLL_MS ?? 4000);
+
+const checkedAt = (() => {
+  const g = globalThis as unknown as { receiptCheckedAt?: Map<string, number> };
+  g.receiptCheckedAt ??= new Map();
+  return g.receiptCheckedAt;
+})();
+
+/**
+ * When this process last polled an intent without finding a receipt
+ *
+ * @param id Intent id
+ * @returns ms since epoch, or undefined when it hasn't been polled (or has left `submitted`)
+ */
+export const lastCheckedAt = (id: string) => checkedAt.get(id);
+
+/**
+ * Checks one submitted intent for a receipt
+ *
+ * Every relayer attempt (submits and their replacements) since the intent was last reopened
+ * is checked, since any of them may have won. A mined cancel replacement means execute never
+ * ran, so the intent goes back to `collecting` and can be submitted again; attempts before
+ * that are settled and skipped.
+ *
+ * @param intent A submitted intent with a txHash
+ * @returns Whether the intent left `submitted`
+ */
+export async function trackIntent(intent: Intent): Promise<boolean> {
+  const clients = getClients(intent.chainId);
+  if (!clients || !intent.txHash) return false;
+
+  const reopenedAt = Math.max(0, ...(intent.events ?? []).filter((e) => e.type === 'reopened').map((e) => e.at));
+  const open = (intent.attempts ?? []).filter((a) => a.hash && a.at >= reopenedAt);
+  const hashes = open.length
+    ? open.map((a) => ({ hash: a.hash!, kind: a.kind }))
+    : [{ hash: intent.txHash, kind: 'submit' as const }];
+
+  const receipts = await Promise.all(
+    hashes.map(({ hash }) =>
+      clients.publicClient.getTransactionReceipt({ hash }).catch((e) => {
+        if (!(e instanceof TransactionReceiptNotFoundError)) console.warn(`receipt check for ${intent.id} failed:`, e);
+        return undefined;
+      }),
+    ),
+  );
+  const mined = receipts.findIndex(Boolean);
+  if (mined === -1) {
+    checkedAt.set(intent.id, Date.now());
+    return false;
+  }
+  checkedAt.delete(intent.id);
+
+  const receipt = receipts[mined]!;
+  const summary = {
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    effectiveGasPrice: receipt.effectiveGasPrice,
+  };
+  // A speed-up, cancel or another instance's tracker during the reads wins; the next pass retries
+  const settle = (patch: Partial<Intent>) =>
+    updateIntent(intent.id, (now) =>
+      now.status === 'submitted' && now.txHash === intent.txHash ? { ...now, ...patch } : undefined,
+    );
+
+  if (hashes[mined].kind === 'cancel') {
+    if (!settle({ status: 'collecting', txHash: undefined, receipt: undefined })) return false;
+    logEvent(intent.id, { type: 'reopened', detail: 'The no-op replacement was mined; execute never ran', txHash: hashes[mined].hash });
+  } else {
+    const ok = receipt.status === 'success';
+    if (!settle({ status: ok ? 'confirmed' : 'failed', txHash: hashes[mined].hash, receipt: summary })) return false;
+    logEvent(intent.id, {
+      type: ok ? 'confirmed' : 'failed',
+      detail: ok ? `Mined in block ${receipt.blockNumber}` : `Reverted on-chain in block ${receipt.blockNumber}`,
+      txHash: hashes[mined].hash,
+    });
+    emitWebhook(ok ? 'intent.confirmed' : 'intent.failed', getIntent(intent.id) ?? intent);
+  }
+  return true;
+}
+
+/**
+ * Runs one polling pass over every submitted intent
+ */
+export async function pollReceipts() {
+  const pending = [...getAllIntents().values()].filter((i) => i.status === 'submitted' && i.txHash);
+  await Promise.all(pending.map(trackIntent));
+}
+
+/**
+ * Starts the poller once per process (idempotent; survives dev module reloads)
+ */
+export function startTracker() {
+  const g = globalThis as unknown as { intentTracker?: ReturnType<typeof setInterval> };
+  if (g.intentTracker) return;
+
+  let running = false;
+  g.intentTracker = setInterval(async () => {
+    if (running) return; // a slow RPC must not stack up passes
+    running = true;
+    try {
+      await pollReceipts();
+    } catch (e) {
+      console.warn('receipt tracker pass failed:', e);
+    } finally {
+      running = false;
+    }
+  }, POLL_MS);
+}
@@ -1,23 +1,40 @@
-import { createPublicClient, createWalletClient, http, Hex, parseAbiItem } from 'viem';
+import { createPublicClient, createWalletClient, http, Hex, PublicClient, WalletClient, Account, Chain, Transport, parseAbiItem } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
-import { baseSepolia } from 'viem/chains';
-
-export const publicClient = createPublicClient({
-  chain: baseSepolia,
-  transport: http(process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL),
-});
-
-const relayer = process.env.RELAYER_PRIVATE_KEY
-  ? privateKeyToAccount(process.env.RELAYER_PRIVATE_KEY as Hex)
-  : undefined;
-
-export const walletClient = relayer
-  ? createWalletClient({
-      account: relayer,
-      chain: baseSepolia,
-      transport: http(process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL),
-    })
-  : undefined;
+import { getChainConfig } from '@/lib/chains';
+
+export type ChainClients = {
+  publicClient: PublicClient<Transport, Chain>;
+  walletClient?: WalletClient<Transport, Chain, Account>;
+};
+
+const clients = new Map<number, ChainClients>();
+
+/**
+ * Returns the RPC clients for a configured chain (cached per chain)
+ *
+ * The relayer key is read from RELAYER_PRIVATE_KEY_<chainId>, falling back to RELAYER_PRIVATE_KEY.
+ *
+ * @param chainId Chain id from the intent
+ * @returns The clients, or undefined when the chain is not in the registry
+ */
+export function getClients(chainId: number): ChainClients | undefined {
+  const hit = clients.get(chainId);
+  if (hit) return hit;
+
+  const cfg = getChainConfig(chainId);
+  if (!cfg) return undefined;
+
+  const transport = http(cfg.rpcUrl);
+  const key = process.env[`RELAYER_PRIVATE_KEY_${chainId}`] ?? process.env.RELAYER_PRIVATE_KEY;
+  const relayer = key ? privateKeyToAccount(key as Hex) : undefined;
+
+  const entry: ChainClients = {
+    publicClient: createPublicClient({ chain: cfg.chain, transport }),
+    walletClient: relayer ? createWalletClient({ account: relayer, chain: cfg.chain, transport }) : undefined,
+  };
+  clients.set(chainId, entry);
+  return entry;
+}
 
 export const MODE_SINGLE_WITH_OPDATA: Hex =
   // bytes32 where the "supports opData" bit is set (0x...7821...01) — padded to 32 bytes.
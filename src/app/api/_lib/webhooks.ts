@@ -0,0 +1,274 @@
+/**
+ * Outgoing webhooks
+ *
+ * Subscriptions are stored in their own collection (see db.ts) and can be scoped to an
+ * account and/or an externalKeyHash. Each delivery is a JSON POST signed with the
+ * subscription's secret:
+ *
+ *   X-Webhook-Signature: sha256=hex(HMAC-SHA256(secret, `${X-Webhook-Timestamp}.${body}`))
+ *
+ * Non-2xx responses and network errors are retried with exponential backoff
+ * (WEBHOOK_BACKOFF_MS · 2^(attempt-1), up to WEBHOOK_MAX_ATTEMPTS). Retries are timers in this
+ * process, so pending ones are dropped on restart. Every attempt is appended to the
+ * subscription's delivery log (the latest DELIVERY_LOG_SIZE are kept).
+ *
+ * Targets on loopback, private or link-local networks are refused when a subscription is
+ * saved and again before every delivery (the host may resolve differently by then), and
+ * redirects are not followed. WEBHOOK_ALLOW_PRIVATE=true lifts this, e.g. for the local
+ * receiver.
+ */
+import type { Hex } from 'viem';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { createBackend } from './db';
+import { serializeIntent } from './serialize';
+import type { Intent } from './store';
+
+export const WEBHOOK_EVENTS = [
+  'intent.created',
+  'intent.threshold_reached',
+  'intent.submitted',
+  'intent.confirmed',
+  'intent.failed',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export type Delivery = {
+  id: string;                  // shared by every attempt of one delivery (X-Webhook-Id)
+  event: WebhookEvent | 'ping';
+  intentId?: string;
+  attempt: number;             // 1-based
+  at: number;                  // ms since epoch
+  ok: boolean;
+  status?: number;             // HTTP status, missing on network errors
+  error?: string;
+  nextRetryAt?: number;        // set when another attempt is scheduled
+};
+
+export type Webhook = {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  account?: Hex;               // only intents of this account (any when unset)
+  chainId?: number;            // only intents on this chain (any when unset)
+  externalKeyHash?: Hex;       // only intents of this multisig key (any when unset)
+  active: boolean;
+  createdAt: number;
+  deliveries: Delivery[];      // newest last
+};
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 5);
+const BACKOFF_MS = Number(process.env.WEBHOOK_BACKOFF_MS ?? 1000);
+const TIMEOUT_MS = 10000;
+const DELIVERY_LOG_SIZE = 100;
+const ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE === 'true';
+
+// Unspecified, private, CGNAT, loopback, link-local (cloud metadata), benchmarking, multicast and reserved
+const BLOCKED_V4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const v4 = (ip: string) => ip.split('.').reduce((n, b) => n * 256 + Number(b), 0);
+const inRange = (ip: string, [base, bits]: [string, number]) =>
+  Math.floor(v4(ip) / 2 ** (32 - bits)) === Math.floor(v4(base) / 2 ** (32 - bits));
+
+/**
+ * Whether an IP address is on a network webhooks must not reach
+ *
+ * @param ip IPv4 or IPv6 address
+ */
+function isPrivateAddress(ip: string): boolean {
+  if (isIP(ip) === 4) return BLOCKED_V4.some((r) => inRange(ip, r));
+  const v6 = ip.toLowerCase();
+  // IPv4-mapped, dotted (::ffff:a.b.c.d) or as URL parsing normalizes it (::ffff:7f00:1)
+  const dotted = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (dotted) return isPrivateAddress(dotted);
+  const hex = v6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const [hi, lo] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isPrivateAddress(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+  }
+  // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10), multicast
+  return v6 === '::' || v6 === '::1' || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith('ff');
+}
+
+/**
+ * Checks that a webhook URL is http(s) and only resolves to public addresses
+ *
+ * @param url Subscription URL
+ * @returns Why the URL is refused, or undefined when it may be called
+ */
+export async function checkWebhookUrl(url: string): Promise<string | undefined> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'url must be an http(s) URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'url must be an http(s) URL';
+  if (ALLOW_PRIVATE) return undefined;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [host]
+    : await lookup(host, { all: true }).then((r) => r.map((a) => a.address)).catch(() => []);
+  if (!addresses.length) return `url host ${host} does not resolve`;
+  const blocked = addresses.find(isPrivateAddress);
+  return blocked ? `url resolves to a private or link-local address (${blocked}); set WEBHOOK_ALLOW_PRIVATE=true to allow it` : undefined;
+}
+
+const DB = createBackend<Webhook>('webhooks', {
+  version: 1,
+  upgrade: (raw) => ({ version: 1, intents: raw.intents ?? {} }),
+});
+
+export const getWebhook = (id: string) => DB.get(id);
+export const listWebhooks = () => [...DB.all().values()];
+
+/**
+ * Stores a new subscription
+ *
+ * @param params URL, events (default all) and optional scope/secret (generated when missing)
+ * @returns The subscription, including its secret
+ */
+export function createWebhook(params: {
+  url: string;
+  events?: WebhookEvent[];
+  account?: Hex;
+  chainId?: number;
+  externalKeyHash?: Hex;
+  secret?: string;
+}): Webhook {
+  const hook: Webhook = {
+    id: randomUUID(),
+    url: params.url,
+    secret: params.secret ?? randomBytes(32).toString('hex'),
+    events: params.events?.length ? params.events : [...WEBHOOK_EVENTS],
+    ...(params.account ? { account: params.account } : {}),
+    ...(params.chainId ? { chainId: params.chainId } : {}),
+    ...(params.externalKeyHash ? { externalKeyHash: params.externalKeyHash } : {}),
+    active: true,
+    createdAt: Date.now(),
+    deliveries: [],
+  };
+  DB.put(hook);
+  return hook;
+}
+
+export const updateWebhook = (id: string, patch: Partial<Pick<Webhook, 'active' | 'events' | 'url'>>) =>
+  DB.update(id, (now) => ({ ...now, ...patch }));
+
+export const deleteWebhook = (id: string) => DB.remove(id);
+
+/**
+ * A subscription as returned by the API: secret and delivery log left out
+ */
+export const publicWebhook = (hook: Webhook) => ({
+  id: hook.id,
+  url: hook.url,
+  events: hook.events,
+  account: hook.account,
+  chainId: hook.chainId,
+  externalKeyHash: hook.externalKeyHash,
+  active: hook.active,
+  createdAt: hook.createdAt,
+  deliveryCount: hook.deliveries.length,
+  lastDelivery: hook.deliveries[hook.deliveries.length - 1],
+});
+
+/**
+ * Signature header value for a delivery body
+ *
+ * @param secret Subscription secret
+ * @param timestamp X-Webhook-Timestamp (ms)
+ * @param body Raw request body
+ * @returns `sha256=<hex>`
+ */
+export const signPayload = (secret: string, timestamp: string, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+const record = (hookId: string, delivery: Delivery) => {
+  DB.update(hookId, (now) => ({ ...now, deliveries: [...now.deliveries, delivery].slice(-DELIVERY_LOG_SIZE) }));
+};
+
+async function deliver(hookId: string, id: string, event: Delivery['event'], payload: object, attempt: number) {
+  const hook = DB.get(hookId);
+  if (!hook?.active) return;
+
+  const body = JSON.stringify({ id, event, at: Date.now(), ...payload });
+  const timestamp = String(Date.now());
+  const base = { id, event, intentId: (payload as { intent?: { id: string } }).intent?.id, attempt, at: Date.now() };
+
+  const refused = await checkWebhookUrl(hook.url);
+  if (refused) {
+    record(hookId, { ...base, ok: false, error: refused });
+    return;
+  }
+
+  let result: Pick<Delivery, 'ok' | 'status' | 'error'>;
+  try {
+    const res = await fetch(hook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': id,
+        'X-Webhook-Event': event,
+        'X-Webhook-Subscription': hook.id,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': signPayload(hook.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual', // a redirect could point anywhere checkWebhookUrl would refuse
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    result = res.ok ? { ok: true, status: res.status } : { ok: false, status: res.status, error: `HTTP ${res.status}` };
+  } catch (e) {
+    result = { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+
+  if (result.ok || attempt >= MAX_ATTEMPTS) {
+    record(hookId, { ...base, ...result });
+    return;
+  }
+  const delay = BACKOFF_MS * 2 ** (attempt - 1);
+  record(hookId, { ...base, ...result, nextRetryAt: Date.now() + delay });
+  setTimeout(() => void deliver(hookId, id, event, payload, attempt + 1), delay);
+}
+
+const matches = (hook: Webhook, event: WebhookEvent, intent: Intent) =>
+  hook.active &&
+  hook.events.includes(event) &&
+  (!hook.account || hook.account.toLowerCase() === intent.account.toLowerCase()) &&
+  (!hook.chainId || hook.chainId === intent.chainId) &&
+  (!hook.externalKeyHash || hook.externalKeyHash.toLowerCase() === intent.externalKeyHash.toLowerCase());
+
+/**
+ * Queues an event for every matching subscription (returns immediately)
+ *
+ * @param event The intent event
+ * @param intent The intent in its new state
+ */
+export function emitWebhook(event: WebhookEvent, intent: Intent) {
+  const payload = { intent: serializeIntent(intent) };
+  for (const hook of listWebhooks()) {
+    if (matches(hook, event, intent)) void deliver(hook.id, randomUUID(), event, payload, 1);
+  }
+}
+
+/**
+ * Sends a `ping` to one subscription, e.g. to check a receiver
+ *
+ * @param hookId Subscription id
+ */
+export const pingWebhook = (hookId: string) => deliver(hookId, randomUUID(), 'ping', {}, 1);
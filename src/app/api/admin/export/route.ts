@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { authorizeAdmin, inScope, redactedFields, redactIntent } from '../../_lib/admin';
+import { serializeIntent } from '../../_lib/serialize';
+import { getAllIntents } from '../../_lib/store';
+import { failureResponse, withStoreErrors } from '../../_lib/errors';
+
+/**
+ * GET /api/admin/export
+ *
+ * Downloads every intent in the caller's scope with its audit log, redacted unless `reveal`
+ * lists the fields.
+ *
+ * @param req Request with a bearer token
+ * @returns JSON attachment { exportedAt, redacted, count, intents }
+ */
+export const GET = withStoreErrors(async function GET(req: Request) {
+  const scope = authorizeAdmin(req);
+  if ('error' in scope) return failureResponse(scope);
+
+  const redacted = redactedFields(new URL(req.url));
+  const intents = [...getAllIntents().values()]
+    .filter((i) => inScope(scope, i))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((i) => ({ ...redactIntent(serializeIntent(i), redacted), events: i.events ?? [] }));
+
+  const exportedAt = Date.now();
+  return NextResponse.json(
+    { exportedAt, redacted, count: intents.length, intents },
+    { headers: { 'Content-Disposition': `attachment; filename="intents-${exportedAt}.json"` } },
+  );
+});
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { authorizeAdmin, inScope, redactedFields, redactIntent, type AdminScope } from '../../../_lib/admin';
+import { serializeIntent } from '../../../_lib/serialize';
+import { refreshStaleOne } from '../../../_lib/stale';
+import { getIntent, logEvent, setIntent, type Intent } from '../../../_lib/store';
+import { trackIntent } from '../../../_lib/tracker';
+import { parseAdminActionPayload } from '../../../_lib/schemas';
+import { apiError, failureResponse, type Failure, withStoreErrors } from '../../../_lib/errors';
+
+const EXPIRABLE: Intent['status'][] = ['collecting', 'stale'];
+
+const load = async (req: Request, params: Promise<{ id: string }>) => {
+  const scope = authorizeAdmin(req);
+  if ('error' in scope) return failureResponse(scope);
+  const intent = getIntent((await params).id);
+  if (!intent || !inScope(scope, intent)) return apiError('NOT_FOUND', 'Not found', 404);
+  return { scope, intent };
+};
+
+/**
+ * GET /api/admin/intents/[id]
+ *
+ * One intent with its audit log, redacted unless `reveal` lists the fields
+ *
+ * @param params Route parameters containing intent ID
+ * @returns { intent, redacted }
+ */
+export const GET = withStoreErrors(async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const loaded = await load(req, params);
+  if (loaded instanceof NextResponse) return loaded;
+
+  const redacted = redactedFields(new URL(req.url));
+  const { intent } = loaded;
+  return NextResponse.json({ intent: { ...redactIntent(serializeIntent(intent), redacted), events: intent.events ?? [] }, redacted });
+});
+
+// Moves a collecting or stale intent to expired now; its signatures can no longer be submitted here
+function forceExpire(scope: AdminScope, intent: Intent): Failure | undefined {
+  if (!EXPIRABLE.includes(intent.status)) return { error: `Cannot expire a ${intent.status} intent`, code: 'INVALID_STATE' };
+  setIntent(intent.id, { status: 'expired', expiresAt: Date.now() });
+  logEvent(intent.id, { type: 'expired', actor: scope.actor, detail: 'Force-expired by an operator' });
+  return undefined;
+}
+
+// Re-runs the checks the app otherwise does lazily: lane nonce for collecting intents,
+// receipt for submitted ones
+async function syncStatus(intent: Intent): Promise<Failure | undefined> {
+  if (intent.status === 'collecting') await refreshStaleOne(intent);
+  else if (intent.status === 'submitted') await trackIntent(intent);
+  return undefined;
+}
+
+/**
+ * POST /api/admin/intents/[id]
+ *
+ * Operator actions:
+ * - `expire`: force-expire a collecting or stale intent
+ * - `sync`: re-run stale detection (collecting) or receipt tracking (submitted)
+ *
+ * @param req Body: { action: 'expire' | 'sync' }
+ * @param params Route parameters containing intent ID
+ * @returns { ok, action, before, status }
+ */
+export const POST = withStoreErrors(async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const loaded = await load(req, params);
+  if (loaded instanceof NextResponse) return loaded;
+  const { scope, intent } = loaded;
+
+  const parsed = parseAdminActionPayload(await req.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
+  const { action } = parsed.value;
+
+  const result = action === 'expire' ? forceExpire(scope, intent) : await syncStatus(intent).catch((e): Failure => ({ error: String(e), code: 'UPSTREAM_ERROR', status: 502 }));
+  if (result) return failureResponse(result);
+
+  return NextResponse.json({ ok: true, action, before: intent.status, status: getIntent(intent.id)?.status });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { authorizeAdmin, inScope, redactedFields, redactIntent } from '../../_lib/admin';
+import { parseIntentQuery, queryIntents } from '../../_lib/query';
+import { serializeIntent } from '../../_lib/serialize';
+import { apiError, failureResponse, withStoreErrors } from '../../_lib/errors';
+
+/**
+ * GET /api/admin/intents
+ *
+ * Lists intents like GET /api/intents (same filters and cursor), restricted to the session's
+ * account, with signatures and calldata redacted unless `reveal` lists them.
+ *
+ * @param req Request with a bearer token and query parameters
+ * @returns { intents, nextCursor, redacted }
+ */
+export const GET = withStoreErrors(async function GET(req: Request) {
+  const scope = authorizeAdmin(req);
+  if ('error' in scope) return failureResponse(scope);
+
+  const url = new URL(req.url);
+  const parsed = parseIntentQuery(url.searchParams);
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error);
+  if (scope.account) parsed.query.account = scope.account;
+
+  const { items, nextCursor } = queryIntents(parsed.query);
+  const redacted = redactedFields(url);
+  return NextResponse.json({
+    intents: items.filter((i) => inScope(scope, i)).map((i) => redactIntent(serializeIntent(i), redacted)),
+    nextCursor: nextCursor ?? null,
+    redacted,
+  });
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getChainConfig } from '@/lib/chains';
+import { adminEnabled, openSession } from '../../_lib/admin';
+import { readMultisigConfig } from '../../_lib/create';
+import { authenticateProposer } from '../../_lib/proposer';
+import { getClients } from '../../_lib/viem';
+import { parseAdminSessionPayload } from '../../_lib/schemas';
+import { apiError, failureResponse, withStoreErrors } from '../../_lib/errors';
+
+/**
+ * POST /api/admin/session
+ *
+ * Opens an admin session for an owner of a multisig key. The owner signs a challenge from
+ * POST /api/intents/challenge exactly as for a proposal; open proposal policies don't apply.
+ *
+ * @param req Request containing { account, chainId, externalKeyHash, proposal: { challenge, wrappedSignature } }
+ * @returns { token, expiresAt, account, chainId } — the token is scoped to that account
+ */
+export const POST = withStoreErrors(async function POST(req: Request) {
+  if (!adminEnabled()) return apiError('FEATURE_DISABLED', 'Admin API is disabled (ADMIN_API)', 404);
+
+  const parsed = parseAdminSessionPayload(await req.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
+  const { account, chainId, externalKeyHash, proposal } = parsed.value;
+
+  const chain = getChainConfig(chainId);
+  const clients = getClients(chainId);
+  if (!chain || !clients) return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${chainId}`);
+
+  let config;
+  try {
+    config = await readMultisigConfig(clients.publicClient, chain.multisig, account, externalKeyHash);
+  } catch (e) {
+    return apiError('UPSTREAM_ERROR', `getConfig failed: ${(e as Error).message}`, 502);
+  }
+  const auth = await authenticateProposer(clients.publicClient, {
+    account,
+    chainId: chain.chain.id,
+    owners: config.owners ?? [],
+    proposal,
+  });
+  if ('error' in auth) return failureResponse(auth);
+  if (!auth.proposer?.owner) {
+    return apiError('PROPOSER_NOT_OWNER', 'Only owners of the multisig key can open an admin session', 403);
+  }
+
+  const session = openSession({ actor: auth.proposer.keyHash, account, chainId: chain.chain.id });
+  return NextResponse.json({ ...session, account, chainId: chain.chain.id });
+});
@@ -0,0 +1,105 @@
+/**
+ * Intent Cancellation API Route
+ *
+ * An intent nobody has signed is simply marked cancelled. Once signatures exist the
+ * digest could still be executed by anyone holding them, so cancelling also proposes an
+ * `invalidateNonce` intent on a different lane; when that confirms, the signed nonce is
+ * burned on-chain. Only an owner can cancel: the caller signs a challenge from
+ * POST /api/intents/challenge and is recorded as the proposer of the invalidation.
+ */
+import { NextResponse } from 'next/server';
+import { getIntent, logEvent, setIntent, updateIntent, type Intent } from '../../../_lib/store';
+import { getClients } from '../../../_lib/viem';
+import { allocateSeqKey } from '../../../_lib/lanes';
+import { createIntent } from '../../../_lib/create';
+import { intentMultisig } from '../../../_lib/config';
+import { invalidateNonceCall } from '@/lib/nonce';
+import { authenticateIntentCaller } from '../../../_lib/proposer';
+import { parseIntentActionPayload } from '../../../_lib/schemas';
+import { apiError, failureResponse, withStoreErrors } from '../../../_lib/errors';
+
+// `failed` still holds a full set of signatures and could be resubmitted, so it needs invalidating too
+const CANCELLABLE: Intent['status'][] = ['collecting', 'failed', 'expired', 'cancelled'];
+const DEAD: Intent['status'][] = ['cancelled', 'expired', 'failed', 'stale'];
+
+// The intent moved on (claimed for submit, signed, or cancelled by someone else) during the awaits
+function conflict(id: string) {
+  const now = getIntent(id);
+  return apiError('INVALID_STATE', `Intent changed while it was being cancelled (now ${now?.status ?? 'gone'}); try again`, 409);
+}
+
+/**
+ * POST /api/intents/[id]/cancel
+ *
+ * Cancels an intent, proposing an invalidateNonce intent when it already has signatures
+ *
+ * @param req Request containing { proposal: { challenge, wrappedSignature, publicKey? } } from an owner passkey
+ * @param params Route parameters containing intent ID
+ * @returns { ok, status, cancelIntentId? } where cancelIntentId is the invalidation intent to sign
+ */
+export const POST = withStoreErrors(async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = parseIntentActionPayload(await req.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
+  const intent = getIntent(id);
+  if (!intent) return apiError('NOT_FOUND', 'Not found', 404);
+
+  // An invalidation already in flight is reused; a dead one can be proposed again
+  const pending = intent.cancelledBy ? getIntent(intent.cancelledBy) : undefined;
+  if (pending && !DEAD.includes(pending.status)) {
+    return NextResponse.json({ ok: true, status: intent.status, cancelIntentId: pending.id });
+  }
+  if (!CANCELLABLE.includes(intent.status)) {
+    return apiError('INVALID_STATE', `Cannot cancel a ${intent.status} intent`);
+  }
+
+  const clients = getClients(intent.chainId);
+  if (!clients) return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${intent.chainId}`);
+  const pinned = intentMultisig(intent);
+  if ('error' in pinned) return failureResponse(pinned);
+  const { multisig } = pinned;
+
+  const auth = await authenticateIntentCaller(clients.publicClient, intent, parsed.value.proposal, 'owners');
+  if ('error' in auth) return failureResponse(auth);
+  const caller = auth.proposer!; // always set under the `owners` policy
+
+  // The checks above ran on a copy read before the awaits: the transition re-checks the stored
+  // intent, so a submit claim or a new signature in the meantime is never overwritten
+  if (intent.signatures.length === 0) {
+    const cancelled = updateIntent(intent.id, (now) =>
+      CANCELLABLE.includes(now.status) && now.signatures.length === 0 ? { ...now, status: 'cancelled' } : undefined,
+    );
+    if (!cancelled) return conflict(intent.id);
+    logEvent(intent.id, { type: 'cancelled', actor: caller.keyHash, detail: 'Cancelled before any signature' });
+    return NextResponse.json({ ok: true, status: 'cancelled' });
+  }
+
+  const created = await createIntent(clients.publicClient, {
+    account: intent.account,
+    chainId: intent.chainId,
+    externalKeyHash: intent.externalKeyHash,
+    seqKey: allocateSeqKey(intent.account, intent.chainId, [BigInt(intent.seqKey)]),
+    calls: [invalidateNonceCall(intent.account, BigInt(intent.nonce))],
+    multisig,
+    cancels: intent.id,
+    proposer: caller,
+  });
+  if ('error' in created) {
+    return failureResponse(created);
+  }
+
+  const cancelIntentId = created.intent.id;
+  const cancelled = updateIntent(intent.id, (now) => {
+    const inFlight = now.cancelledBy ? getIntent(now.cancelledBy) : undefined;
+    if (!CANCELLABLE.includes(now.status) || (inFlight && !DEAD.includes(inFlight.status))) return undefined;
+    return { ...now, status: 'cancelled', cancelledBy: cancelIntentId };
+  });
+  if (!cancelled) {
+    // Nothing points at the invalidation, so it must not collect signatures
+    setIntent(cancelIntentId, { status: 'cancelled' });
+    logEvent(cancelIntentId, { type: 'cancelled', actor: caller.keyHash, detail: `${intent.id} changed while this was proposed` });
+    return conflict(intent.id);
+  }
+  logEvent(intent.id, { type: 'cancelled', actor: caller.keyHash, detail: `Nonce invalidation proposed as ${cancelIntentId}` });
+  return NextResponse.json({ ok: true, status: 'cancelled', cancelIntentId });
+});
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getIntent } from '../../../_lib/store';
+import { apiError, withStoreErrors } from '../../../_lib/errors';
+
+/**
+ * GET /api/intents/[id]/events
+ *
+ * The intent's audit log, oldest first: creation, signature attempts (accepted or rejected
+ * with the reason), simulations, submit attempts, replacements and the final outcome.
+ *
+ * @param params Route parameters containing intent ID
+ * @returns { events: { type, at, actor?, detail?, txHash? }[] }
+ */
+export const GET = withStoreErrors(async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const intent = getIntent(id);
+  if (!intent) return apiError('NOT_FOUND', 'Intent not found', 404);
+
+  return NextResponse.json({ events: intent.events ?? [] });
+});
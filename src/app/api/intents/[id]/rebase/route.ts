@@ -0,0 +1,84 @@
+/**
+ * Intent Rebase API Route
+ *
+ * Re-proposes a stale intent's calls at the current nonce of the same lane. The new intent
+ * gets a fresh digest (signatures never carry over) and both are linked so anyone holding
+ * the old link lands on the one to sign. Rebasing is a new proposal: the caller is
+ * authenticated like a proposer (PROPOSAL_POLICY applies) and recorded as its proposer.
+ */
+import { NextResponse } from 'next/server';
+import { getIntent, logEvent, setIntent } from '../../../_lib/store';
+import { getClients } from '../../../_lib/viem';
+import { createIntent } from '../../../_lib/create';
+import { intentMultisig } from '../../../_lib/config';
+import { refreshStaleOne } from '../../../_lib/stale';
+import { authenticateIntentCaller } from '../../../_lib/proposer';
+import { parseIntentActionPayload } from '../../../_lib/schemas';
+import { apiError, failureResponse, withStoreErrors } from '../../../_lib/errors';
+
+/**
+ * POST /api/intents/[id]/rebase
+ *
+ * Clones a stale intent into a new one at the lane's current nonce
+ *
+ * @param req Request containing { proposal: { challenge, wrappedSignature, publicKey? } } (optional under an open policy)
+ * @param params Route parameters containing intent ID
+ * @returns { id, digest, nonce } of the rebased intent
+ */
+export const POST = withStoreErrors(async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = parseIntentActionPayload(await req.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
+  const found = getIntent(id);
+  if (!found) return apiError('NOT_FOUND', 'Not found', 404);
+
+  const existing = found.rebasedTo ? getIntent(found.rebasedTo) : undefined;
+  if (existing) {
+    return NextResponse.json({ id: existing.id, digest: existing.digest, nonce: existing.nonce.toString() });
+  }
+
+  const intent = await refreshStaleOne(found);
+  if (intent.status !== 'stale') {
+    return apiError('INVALID_STATE', `Only stale intents can be rebased (this one is ${intent.status})`);
+  }
+
+  const clients = getClients(intent.chainId);
+  if (!clients) return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${intent.chainId}`);
+  const pinned = intentMultisig(intent);
+  if ('error' in pinned) return failureResponse(pinned);
+  const { multisig } = pinned;
+
+  const auth = await authenticateIntentCaller(clients.publicClient, intent, parsed.value.proposal);
+  if ('error' in auth) return failureResponse(auth);
+
+  const created = await createIntent(clients.publicClient, {
+    account: intent.account,
+    chainId: intent.chainId,
+    externalKeyHash: intent.externalKeyHash,
+    seqKey: BigInt(intent.seqKey),
+    calls: intent.calls.map((c) => ({ ...c, value: BigInt(c.value) })),
+    multisig,
+    ...(intent.expiresAt && intent.expiresAt > Date.now() ? { expiresAt: intent.expiresAt } : {}),
+    rebasedFrom: intent.id,
+    cancels: intent.cancels,
+    proposer: auth.proposer,
+    prehash: intent.prehash,
+  });
+  if ('error' in created) {
+    return failureResponse(created);
+  }
+
+  setIntent(intent.id, { rebasedTo: created.intent.id });
+  logEvent(intent.id, {
+    type: 'rebased',
+    actor: auth.proposer?.keyHash,
+    detail: `Re-proposed at the current nonce as ${created.intent.id}`,
+  });
+  // A rebased cancellation takes over from the stale one
+  if (intent.cancels) setIntent(intent.cancels, { cancelledBy: created.intent.id });
+  return NextResponse.json({
+    id: created.intent.id,
+    digest: created.intent.digest,
+    nonce: created.intent.nonce.toString(),
+  });
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { getIntent, logEvent, setIntent } from '../../../_lib/store';
+import { getClients } from '../../../_lib/viem';
+import { buildExecutionData } from '../../../_lib/execution';
+import { replaceExecute } from '../../../_lib/relayer';
+import { authenticateIntentCaller } from '../../../_lib/proposer';
+import { parseReplacePayload } from '../../../_lib/schemas';
+import { apiError, failureResponse, withStoreErrors } from '../../../_lib/errors';
+
+/**
+ * POST /api/intents/[id]/replace
+ *
+ * Replaces the pending submit transaction at the same relayer nonce with bumped fees.
+ * `speedup` re-sends the same execute; `cancel` sends a 0-value self-transfer so execute
+ * never lands and the intent returns to collecting once the tracker sees it mined. Both spend
+ * relayer funds, so only an owner can replace: the caller signs a challenge from
+ * POST /api/intents/challenge.
+ *
+ * @param request Body: { action: 'speedup' | 'cancel', proposal: { challenge, wrappedSignature, publicKey? } }
+ * @param params Route parameters containing intent ID
+ * @returns { ok, txHash, action }
+ */
+export const POST = withStoreErrors(async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const parsed = parseReplacePayload(await request.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
+  const { action, proposal } = parsed.value;
+
+  const intent = getIntent(id);
+  if (!intent) return apiError('NOT_FOUND', 'Not found', 404);
+  if (intent.status !== 'submitted') {
+    return apiError('INVALID_STATE', `Intent is ${intent.status}, nothing pending to replace`);
+  }
+
+  const clients = getClients(intent.chainId);
+  if (!clients) return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${intent.chainId}`);
+  if (!clients.walletClient) {
+    return apiError('RELAYER_NOT_CONFIGURED', `RELAYER_PRIVATE_KEY_${intent.chainId} missing`, 500);
+  }
+
+  const auth = await authenticateIntentCaller(clients.publicClient, intent, proposal, 'owners');
+  if ('error' in auth) return failureResponse(auth);
+
+  const sent = await replaceExecute(intent, clients, action, buildExecutionData(intent));
+  if ('error' in sent) return apiError('SUBMISSION_FAILED', sent.error);
+
+  // A speed-up carries the same execute, so it becomes the hash to show; a cancel keeps the original
+  if (action === 'speedup') setIntent(intent.id, { txHash: sent.hash });
+  logEvent(intent.id, {
+    type: 'replaced',
+    actor: auth.proposer!.keyHash, // always set under the `owners` policy
+    detail: action === 'speedup' ? 'Sped up with higher fees' : 'Cancelled with a no-op at the same relayer nonce',
+    txHash: sent.hash,
+  });
+
+  return NextResponse.json({ ok: true, txHash: sent.hash, action });
+});
@@ -1,24 +1,33 @@
 import { NextResponse } from 'next/server';
 import { getIntent } from '../../_lib/store';
+import { serializeIntent } from '../../_lib/serialize';
+import { refreshStaleOne } from '../../_lib/stale';
+import { publicRedaction, redactIntent } from '../../_lib/admin';
+import { lastCheckedAt } from '../../_lib/tracker';
+import { apiError, withStoreErrors } from '../../_lib/errors';
 
-export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+/**
+ * GET /api/intents/[id]
+ *
+ * The intent with its calls, for review and signing. Collected signatures are redacted unless
+ * an admin bearer token asks for them with `?reveal=signatures` (see publicRedaction).
+ * Pending submissions carry `lastCheckedAt`, the tracker's last empty receipt poll; the
+ * stream leaves it out so polls don't send frames.
+ *
+ * @param req The request (optional Authorization header)
+ * @param params Route parameters containing intent ID
+ * @returns The serialized intent
+ */
+export const GET = withStoreErrors(async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
   const intent = getIntent(id);
   
   if (!intent) {
-    return NextResponse.json({ error: 'Intent not found' }, { status: 404 });
+    return apiError('NOT_FOUND', 'Intent not found', 404);
   }
   
-  // Convert BigInt values to strings for JSON serialization
-  const intentForJson = {
-    ...intent,
-    seqKey: intent.seqKey.toString(),
-    nonce: intent.nonce.toString(),
-    calls: intent.calls.map(call => ({
-      ...call,
-      value: call.value.toString()
-    }))
-  };
-  
-  return NextResponse.json(intentForJson);
-}
\ No newline at end of file
+  return NextResponse.json({
+    ...redactIntent(serializeIntent(await refreshStaleOne(intent)), publicRedaction(req, intent)),
+    lastCheckedAt: lastCheckedAt(intent.id),
+  });
+});
\ No newline at end of file
@@ -5,82 +5,64 @@
  * This endpoint validates Porto WebAuthn signatures and adds them to the intent's signature collection.
  * 
  * Flow:
- * 1. Validates the wrapped signature against the account contract
- * 2. Attempts signature validation with both prehash values (0x00 and 0x01)
- * 3. Verifies the signer is authorized in the intent's owner set
+ * 1. Checks the body before any RPC
+ * 2. Validates the wrapped signature (locally with ox for known P-256 keys or the public key
+ *    the signer sent, else against the account contract), settling the prehash byte (0x00 or 0x01)
+ * 3. Verifies the signer is an owner in the current getConfig (see config.ts), and only then
+ *    registers the sent public key for later local verification
  * 4. Prevents duplicate signatures from the same owner
  * 5. Stores valid signatures and returns collection status
  */
 import { NextResponse } from 'next/server';
 import { Hex } from 'viem';
-import { getIntent, setIntent } from '../../../_lib/store';
-import { publicClient } from '../../../_lib/viem';
+import { getIntent, logEvent, updateIntent, type Intent } from '../../../_lib/store';
+import { getClients } from '../../../_lib/viem';
+import { validateWrappedSignature } from '../../../_lib/signatures';
+import { registerKey } from '../../../_lib/keys';
+import { refreshStaleOne } from '../../../_lib/stale';
+import { toCallStructs } from '../../../_lib/execution';
+import { emitWebhook } from '../../../_lib/webhooks';
+import { refreshConfig } from '../../../_lib/config';
+import { signingDigest } from '../../../_lib/aggregate';
+import { apiError, failureResponse, withStoreErrors } from '../../../_lib/errors';
+import { parseSignPayload } from '../../../_lib/schemas';
 import { accountAbi } from '@/lib/abi/account';
 import { abi as multiSigAbi } from '@/../abis/MultisigSignerAbi.json';
 
-/**
- * Validates a wrapped Porto signature against an account contract
- * 
- * Porto signatures may have different prehash values, so this function
- * attempts validation with both 0x00 and 0x01 prehash bytes.
- * 
- * @param account The account address to validate against
- * @param digest The digest that was signed
- * @param wrapped The wrapped signature from Porto
- * @returns Object with validation result and owner key hash
- */
-async function validateWrappedSignature(account: Hex, digest: Hex, wrapped: Hex) {
-  
-  const tryOnce = async (sig: Hex, _label: string) => {
-    try {
-      const [ok, ownerKh] = (await publicClient.readContract({
-        address: account,
-        abi: accountAbi,
-        functionName: 'unwrapAndValidateSignature',
-        args: [digest, sig],
-      })) as [boolean, Hex];
-      return { ok, ownerKh, sig };
-    } catch (e) {
-      return { ok: false as const, ownerKh: '0x' as Hex, sig };
-    }
-  };
-
-  let res = await tryOnce(wrapped, 'original signature');
-  if (res.ok) return res;
-
-  const hex = wrapped.toLowerCase();
-  if (!hex.startsWith('0x') || hex.length < 2 + 64 + 64 + 64 + 2) {
-    return res; // malformed length; return first attempt
-  }
-  const last2 = hex.slice(-2);
-  const flippedLast2 = last2 === '01' ? '00' : '01';
-  const flipped = (hex.slice(0, -2) + flippedLast2) as Hex;
-
-  const res2 = await tryOnce(flipped, 'flipped prehash signature');
-  if (res2.ok) return res2;
-
-  return res;
-}
-
 /**
  * POST /api/intents/[id]/sign
  * 
  * Validates and collects signatures for a multisig intent
  * 
- * @param req Request containing { wrappedSignature: Hex }
+ * @param req Request containing { wrappedSignature: Hex, publicKey?: Hex }
  * @param params Route parameters containing intent ID
  * @returns Signature validation result and collection status
  */
-export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+export const POST = withStoreErrors(async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
-  const intent = getIntent(id);
-  if (!intent) return NextResponse.json({ error: 'Not found' }, { status: 404 });
-
-  const body = await req.json();
-  const { wrappedSignature } = body as { wrappedSignature: Hex };
-  if (!wrappedSignature) {
-    return NextResponse.json({ error: 'Missing wrappedSignature' }, { status: 400 });
+  const parsed = parseSignPayload(await req.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
+  const { wrappedSignature, publicKey } = parsed.value;
+
+  const found = getIntent(id);
+  if (!found) return apiError('NOT_FOUND', 'Not found', 404);
+  const fresh = await refreshStaleOne(found);
+  if (fresh.status === 'cancelled' || fresh.status === 'expired') {
+    logEvent(fresh.id, { type: 'signature_rejected', detail: `Intent is ${fresh.status}` });
+    return apiError('INTENT_CLOSED', `Intent is ${fresh.status}`);
   }
+  if (fresh.status === 'stale') {
+    logEvent(fresh.id, { type: 'signature_rejected', detail: 'Intent is stale' });
+    return apiError('INTENT_STALE', 'Intent is stale: its nonce was used by another transaction. Rebase it and sign the new intent.');
+  }
+  const clients = getClients(fresh.chainId);
+  if (!clients) return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${fresh.chainId}`);
+  const { publicClient } = clients;
+
+  // Owners and threshold as they are on-chain now, not as they were at proposal time
+  const synced = await refreshConfig(publicClient, fresh);
+  if ('error' in synced) return failureResponse(synced);
+  const { intent } = synced;
 
   try {
     const accountAddr = intent.account as Hex;
@@ -92,13 +74,14 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
         address: accountAddr,
         abi: accountAbi,
         functionName: 'computeDigest',
-        args: [calls, BigInt(nonce)],
+        args: [toCallStructs(calls), BigInt(nonce)],
       })) as Hex;
 
       const matches = onChainDigest.toLowerCase() === (intent.digest as Hex).toLowerCase();
 
       if (!matches) {
-        return NextResponse.json({ error: 'Digest mismatch' }, { status: 400 });
+        logEvent(intent.id, { type: 'signature_rejected', detail: 'Stored digest no longer matches computeDigest' });
+        return apiError('DIGEST_MISMATCH', 'Digest mismatch: the stored digest no longer matches computeDigest');
       }
     }
   } catch (e) {
@@ -106,37 +89,50 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
   }
 
   const account = intent.account as Hex;
-  const digest = intent.digest as Hex;
+  const digest = signingDigest(intent); // sha256(digest) for prehash intents
 
+  const checked = await validateWrappedSignature(publicClient, account, digest, wrappedSignature, publicKey);
 
-  const checked = await validateWrappedSignature(account, digest, wrappedSignature);
-
+  if (!checked.ok && checked.reason === 'rpc') {
+    return apiError('UPSTREAM_ERROR', 'Could not validate the signature on-chain', 502);
+  }
   if (!checked.ok) {
-    return NextResponse.json(
-      {
-        error: 'Invalid signature',
-      },
-      { status: 400 },
-    );
+    logEvent(intent.id, { type: 'signature_rejected', detail: 'Signature does not validate against the digest' });
+    return apiError('INVALID_SIGNATURE', 'Invalid signature');
   }
 
   const ownerKeyHash = checked.ownerKh;
 
   if (!intent.owners.some((k: string) => k.toLowerCase() === ownerKeyHash.toLowerCase())) {
-    return NextResponse.json({ error: 'Signer not authorized' }, { status: 400 });
+    logEvent(intent.id, { type: 'signature_rejected', actor: ownerKeyHash, detail: 'Signer is not an owner' });
+    return apiError('SIGNER_NOT_OWNER', 'Signer not authorized', 400, { ownerKeyHash });
   }
-
-  if (intent.signatures.some((s: any) => s.ownerKeyHash.toLowerCase() === ownerKeyHash.toLowerCase())) {
-    return NextResponse.json({ ok: true, k: intent.signatures.length, M: intent.threshold });
+  if (checked.newKey) registerKey(checked.newKey);
+
+  // Appended to the latest stored signatures: others may have signed during the checks above
+  const signedBy = (i: Intent) => i.signatures.some((s) => s.ownerKeyHash.toLowerCase() === ownerKeyHash.toLowerCase());
+  const stored = updateIntent(intent.id, (now) => {
+    if (signedBy(now)) return undefined;
+    const signatures = [...now.signatures, { ownerKeyHash, sig: checked.sig, at: Date.now() }];
+    return {
+      ...now,
+      signatures,
+      events: [
+        ...(now.events ?? []),
+        { type: 'signature_accepted', actor: ownerKeyHash, detail: `${signatures.length} of ${now.threshold}`, at: Date.now() },
+      ],
+    };
+  });
+  if (!stored) {
+    const now = getIntent(intent.id) ?? intent;
+    return NextResponse.json({ ok: true, k: now.signatures.length, M: now.threshold });
   }
-
-  intent.signatures.push({ ownerKeyHash, sig: checked.sig, at: Date.now() });
-  setIntent(intent.id, { signatures: intent.signatures });
+  if (stored.signatures.length === stored.threshold) emitWebhook('intent.threshold_reached', stored);
 
   return NextResponse.json({
     ok: true,
-    k: intent.signatures.length,
-    M: intent.threshold,
-    ready: intent.signatures.length >= intent.threshold,
+    k: stored.signatures.length,
+    M: stored.threshold,
+    ready: stored.signatures.length >= stored.threshold,
   });
-}
\ No newline at end of file
+});
\ No newline at end of file
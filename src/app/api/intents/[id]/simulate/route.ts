@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getIntent } from '../../../_lib/store';
+import { getClients } from '../../../_lib/viem';
+import { simulateIntent } from '../../../_lib/simulate';
+import { apiError, withStoreErrors } from '../../../_lib/errors';
+
+/**
+ * POST /api/intents/[id]/simulate
+ *
+ * Dry-runs the intent with eth_call. Before the threshold is met only the calls are checked
+ * (permissions + self-call); afterwards the signed execute is run. Nothing is stored or
+ * logged: the intent page runs this for every viewer, and submit records its own run.
+ *
+ * @param params Route parameters containing intent ID
+ * @returns { ok, mode, revert?, failedCall?, at } with the revert decoded against the
+ *          IthacaAccount and MultisigSigner error sets
+ */
+export const POST = withStoreErrors(async function POST(_: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const intent = getIntent(id);
+  if (!intent) return apiError('NOT_FOUND', 'Not found', 404);
+
+  const clients = getClients(intent.chainId);
+  if (!clients) return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${intent.chainId}`);
+
+  return NextResponse.json(await simulateIntent(intent, clients));
+});
@@ -0,0 +1,82 @@
+import { getIntent, onIntentChange } from '../../../_lib/store';
+import { serializeIntent } from '../../../_lib/serialize';
+import { redactIntent } from '../../../_lib/admin';
+import { apiError, withStoreErrors } from '../../../_lib/errors';
+
+export const dynamic = 'force-dynamic';
+
+// Writes from other instances sharing the file store (and lazy expiry) only show up on read
+const POLL_MS = 2000;
+const PING_MS = 15000;
+
+/**
+ * GET /api/intents/[id]/stream
+ *
+ * Server-Sent Events feed of an intent. Sends an `intent` event with the serialized intent
+ * (plus `eventCount`, the length of its audit log) on connect and again whenever a signature,
+ * status or transaction change is written. Comment pings keep idle proxies from closing it.
+ * EventSource can't send an Authorization header, so signatures are always redacted.
+ *
+ * @param req The request (its abort signal ends the stream)
+ * @param params Route parameters containing intent ID
+ * @returns text/event-stream
+ */
+export const GET = withStoreErrors(async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!getIntent(id)) return apiError('NOT_FOUND', 'Intent not found', 404);
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let last = '';
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          stop();
+        }
+      };
+      const push = () => {
+        const intent = getIntent(id);
+        if (!intent) return;
+        const data = JSON.stringify({ ...redactIntent(serializeIntent(intent), ['signatures']), eventCount: intent.events?.length ?? 0 });
+        if (data === last) return;
+        last = data;
+        send(`event: intent\ndata: ${data}\n\n`);
+      };
+
+      const unsubscribe = onIntentChange((changed) => {
+        if (changed === id) push();
+      });
+      const poll = setInterval(push, POLL_MS);
+      const ping = setInterval(() => send(': ping\n\n'), PING_MS);
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(poll);
+        clearInterval(ping);
+        try {
+          controller.close();
+        } catch {}
+      };
+      req.signal.addEventListener('abort', stop);
+      push();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+});
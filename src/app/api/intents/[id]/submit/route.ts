@@ -1,81 +1,157 @@
 import { NextResponse } from 'next/server';
-import { Hex, concatHex, encodeAbiParameters, toHex } from 'viem';
-import { getIntent, setIntent } from '../../../_lib/store';
-import { publicClient, walletClient, MODE_SINGLE_WITH_OPDATA } from '../../../_lib/viem';
+import { getIntent, logEvent, setIntent, updateIntent, type Intent } from '../../../_lib/store';
+import { getClients } from '../../../_lib/viem';
+import { recordSimulation, simulateIntent } from '../../../_lib/simulate';
+import { startTracker } from '../../../_lib/tracker';
+import { submitIntent } from '../../../_lib/submission';
+import { emitWebhook } from '../../../_lib/webhooks';
+import { refreshConfig } from '../../../_lib/config';
+import { aggregateSignatures } from '../../../_lib/aggregate';
+import { apiError, failureResponse, withStoreErrors } from '../../../_lib/errors';
+import { parseSubmitPayload } from '../../../_lib/schemas';
 import { accountAbi } from '@/lib/abi/account';
 
-export async function POST(_: Request, { params }: { params: Promise<{ id: string }> }) {
-  const { id } = await params;
-  const intent = getIntent(id);
-  if (!intent) return NextResponse.json({ error: 'Not found' }, { status: 404 });
-  if (!walletClient) return NextResponse.json({ error: 'RELAYER_PRIVATE_KEY missing' }, { status: 500 });
+const CLAIMABLE: Intent['status'][] = ['collecting', 'failed', 'stale'];
+// A claim left behind by a request that died mid-submit lapses after this long
+const CLAIM_TTL_MS = 2 * 60 * 1000;
 
-  // Ensure we still meet threshold (in case config changed)
-  if (intent.signatures.length < intent.threshold) {
-    return NextResponse.json({ error: 'Not enough signatures' }, { status: 400 });
-  }
+/**
+ * Moves the intent to `submitting`, in one store update, unless another submit holds it
+ *
+ * @param id Intent to claim
+ * @returns The claim (with the status to fall back to), or undefined when it is taken
+ */
+function claimSubmit(id: string): Intent['submitClaim'] {
+  let claim: Intent['submitClaim'];
+  updateIntent(id, (now) => {
+    const lapsed = now.status === 'submitting' && (now.submitClaim?.at ?? 0) <= Date.now() - CLAIM_TTL_MS;
+    if (!CLAIMABLE.includes(now.status) && !lapsed) return undefined;
+    claim = { at: Date.now(), from: lapsed ? (now.submitClaim?.from ?? 'collecting') : now.status };
+    return { ...now, status: 'submitting', submitClaim: claim };
+  });
+  return claim;
+}
 
-  // 1) aggregated = abi.encode(bytes[] ownerSigs)
-  const ownerSigs = intent.signatures.map((s) => s.sig);
-  const aggregated = encodeAbiParameters([{ type: 'bytes[]' }], [ownerSigs]);
-
-  // 2) outer = abi.encodePacked(aggregated, bytes32(externalKeyHash), false /*prehash*/ )
-  const outer = concatHex([aggregated, intent.externalKeyHash as Hex, '0x00']);
-
-  // 3) opData = abi.encodePacked(uint256 nonce, bytes signature)
-  const opData = concatHex([toHex(intent.nonce, { size: 32 }), outer]);
-
-  // 4) executionData = abi.encode(Call[], opData)
-  const executionData = encodeAbiParameters(
-    [
-      {
-        type: 'tuple[]',
-        components: [
-          { name: 'to', type: 'address' },
-          { name: 'value', type: 'uint256' },
-          { name: 'data', type: 'bytes' },
-        ],
-      },
-      { type: 'bytes' },
-    ],
-    [intent.calls, opData],
+/**
+ * Drops the claim; an intent that is still `submitting` (an early return) gets its status back
+ *
+ * @param id Claimed intent
+ * @param claim The claim taken by this request (a newer one is left alone)
+ */
+function releaseSubmit(id: string, claim: NonNullable<Intent['submitClaim']>) {
+  updateIntent(id, (now) =>
+    now.submitClaim?.at === claim.at
+      ? { ...now, status: now.status === 'submitting' ? claim.from : now.status, submitClaim: undefined }
+      : undefined,
   );
+}
 
-  // 5) Check current nonce vs intent nonce
-  const currentNonce = await publicClient.readContract({
-    address: intent.account,
-    abi: accountAbi,
-    functionName: 'getNonce',
-    args: [0n], // seqKey 0 for default sequence
-  });
+export const POST = withStoreErrors(async function POST(_: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const found = getIntent(id);
+  if (!found) return apiError('NOT_FOUND', 'Not found', 404);
+  if (found.status === 'cancelled' || found.status === 'expired') {
+    logEvent(found.id, { type: 'submit_rejected', detail: `Intent is ${found.status}` });
+    return apiError('INTENT_CLOSED', `Intent is ${found.status}`);
+  }
+  if (found.status === 'submitted' || found.status === 'confirmed') {
+    logEvent(found.id, { type: 'submit_rejected', detail: `Intent already ${found.status}` });
+    return apiError('ALREADY_SUBMITTED', `Intent already ${found.status}`, 400, { txHash: found.txHash });
+  }
 
-  if (BigInt(intent.nonce) !== currentNonce) {
-    return NextResponse.json({ 
-      error: 'Nonce mismatch', 
-      intentNonce: intent.nonce.toString(),
-      currentNonce: currentNonce.toString(),
-      hint: 'The intent nonce is outdated. Create a new intent with the current nonce.'
-    }, { status: 400 });
+  // Claim the intent before the first await, so a second submit can't run alongside this one
+  const claim = claimSubmit(found.id);
+  if (!claim) {
+    logEvent(found.id, { type: 'submit_rejected', detail: 'Another submit is in progress' });
+    return apiError('ALREADY_SUBMITTED', 'Intent is already being submitted', 409);
   }
 
-  // 6) call account.execute(mode, executionData)
   try {
-    const hash = await walletClient.writeContract({
-      address: intent.account,
-      abi: accountAbi,
-      functionName: 'execute',
-      args: [MODE_SINGLE_WITH_OPDATA, executionData],
-      // value can stay 0; if your calls require ETH, pass via wallet or include value in calls
-    });
-
-    setIntent(intent.id, { status: 'submitted', txHash: hash });
-    // (Optional) wait for confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
-    setIntent(intent.id, { status: receipt.status === 'success' ? 'confirmed' : 'failed' });
-
-    return NextResponse.json({ ok: true, txHash: hash, status: receipt.status });
-  } catch (e: any) {
-    setIntent(intent.id, { status: 'failed' });
-    return NextResponse.json({ error: e?.message ?? 'submit failed' }, { status: 500 });
+    const clients = getClients(found.chainId);
+    if (!clients) return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${found.chainId}`);
+    const { publicClient, walletClient } = clients;
+    if (!walletClient) {
+      logEvent(found.id, { type: 'submit_rejected', detail: 'No relayer key configured' });
+      return apiError('RELAYER_NOT_CONFIGURED', `RELAYER_PRIVATE_KEY_${found.chainId} missing`, 500);
+    }
+
+    // Re-read getConfig: removed owners' signatures are dropped and a raised threshold applies
+    const synced = await refreshConfig(publicClient, found);
+    if ('error' in synced) return failureResponse(synced);
+    const { intent } = synced;
+    if (!intent.owners.length) {
+      logEvent(intent.id, { type: 'submit_rejected', detail: 'Multisig key has no owners on-chain' });
+      return apiError('MULTISIG_NOT_CONFIGURED', 'The multisig key no longer has any owners');
+    }
+
+    // Exactly `threshold` usable signatures go on-chain (see aggregate.ts)
+    const aggregation = aggregateSignatures(intent);
+    if (!aggregation.complete) {
+      logEvent(intent.id, { type: 'submit_rejected', detail: `Not enough signatures (${aggregation.signers.length} of ${intent.threshold})` });
+      return apiError('THRESHOLD_NOT_MET', 'Not enough signatures', 400, {
+        k: aggregation.signers.length,
+        M: intent.threshold,
+        ...(intent.configDrift ? { configDrift: intent.configDrift } : {}),
+      });
+    }
+
+    const checked = parseSubmitPayload(intent);
+    if ('error' in checked) {
+      logEvent(intent.id, { type: 'submit_rejected', detail: `Malformed intent: ${checked.error}` });
+      return apiError('INVALID_PAYLOAD', `Stored intent is malformed: ${checked.error}`, 400, { field: checked.field });
+    }
+
+    // Check current nonce vs intent nonce
+    let currentNonce: bigint;
+    try {
+      currentNonce = await publicClient.readContract({
+        address: intent.account,
+        abi: accountAbi,
+        functionName: 'getNonce',
+        args: [BigInt(intent.seqKey)], // the intent's own lane
+      });
+    } catch (e) {
+      return apiError('UPSTREAM_ERROR', `getNonce failed: ${(e as Error).message}`, 502);
+    }
+
+    if (BigInt(intent.nonce) !== currentNonce) {
+      if (claim.from === 'collecting') setIntent(intent.id, { status: 'stale' });
+      logEvent(intent.id, { type: 'stale', detail: `Lane nonce moved to ${currentNonce} (intent has ${BigInt(intent.nonce)})` });
+      return apiError('NONCE_MISMATCH', 'Nonce mismatch', 400, {
+        intentNonce: intent.nonce.toString(),
+        currentNonce: currentNonce.toString(),
+        seqKey: intent.seqKey.toString(),
+        hint: 'The intent nonce is outdated. Rebase it to create a copy at the current nonce.',
+      });
+    }
+
+    // Dry-run first so reverts don't cost gas
+    const simulation = await simulateIntent(intent, clients);
+    recordSimulation(intent.id, simulation);
+    if (!simulation.ok) {
+      logEvent(intent.id, { type: 'submit_rejected', detail: 'Simulation failed' });
+      return apiError('SIMULATION_FAILED', `Simulation failed: ${simulation.revert?.description ?? 'reverted'}`, 400, { simulation });
+    }
+
+    const submitter = walletClient.account.address;
+
+    // account.execute through the relayer's nonce queue and fee policy
+    const sent = await submitIntent(intent, clients);
+    if ('error' in sent) {
+      setIntent(intent.id, { status: 'failed' });
+      logEvent(intent.id, { type: 'failed', actor: submitter, detail: sent.error });
+      emitWebhook('intent.failed', getIntent(intent.id) ?? intent);
+      return apiError('SUBMISSION_FAILED', sent.error, 500);
+    }
+
+    // The receipt is picked up by the background tracker; don't hold the request open for it
+    setIntent(intent.id, { status: 'submitted', txHash: sent.hash, submittedAt: Date.now(), receipt: undefined });
+    logEvent(intent.id, { type: 'submitted', actor: submitter, txHash: sent.hash });
+    emitWebhook('intent.submitted', getIntent(intent.id) ?? intent);
+    startTracker();
+
+    return NextResponse.json({ ok: true, txHash: sent.hash, status: 'submitted' });
+  } finally {
+    releaseSubmit(found.id, claim);
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getChainConfig } from '@/lib/chains';
+import { issueChallenge, proposalPolicy } from '../../_lib/proposer';
+import { parseChallengePayload } from '../../_lib/schemas';
+import { apiError, failureResponse, withStoreErrors } from '../../_lib/errors';
+
+/**
+ * POST /api/intents/challenge
+ *
+ * Issues a single-use challenge for proposing an intent. The proposer signs
+ * proposalDigest(challenge) with an owner passkey and sends it as `proposal` to POST /api/intents.
+ *
+ * @param req Request containing { account, chainId }
+ * @returns { challenge, expiresAt, policy }
+ */
+export const POST = withStoreErrors(async function POST(req: Request) {
+  const parsed = parseChallengePayload(await req.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
+  const { account, chainId } = parsed.value;
+  const chain = getChainConfig(chainId);
+  if (!chain) {
+    return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${chainId}`);
+  }
+
+  const issued = issueChallenge(account, chain.chain.id);
+  if ('error' in issued) return failureResponse(issued);
+  return NextResponse.json({ ...issued, policy: proposalPolicy(account) });
+});
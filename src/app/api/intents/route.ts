@@ -5,18 +5,32 @@
  * Fetches multisig configuration, computes transaction digest, and stores the intent.
  * 
  * Flow:
- * 1. Validates multisig configuration exists for the given account and external key
+ * 1. Validates multisig configuration exists for the given account and external key, and that
+ *    the proposer signed a fresh challenge with an owner passkey (see _lib/proposer.ts)
  * 2. Retrieves current nonce from the account contract
  * 3. Computes the digest that signers will sign
  * 4. Stores the intent with all necessary metadata for signature collection
+ *
+ * Listing (GET) filters the store by account, key hash, status or pending signer,
+ * and pages through results with an opaque cursor.
  */
 import { NextResponse } from 'next/server';
-import { Hex, encodeFunctionData } from 'viem';
-import { publicClient } from '../_lib/viem';
-import { accountAbi } from '../../../lib/abi/account';
-import { abi as multiSigAbi } from '@/../abis/MultisigSignerAbi.json';
-import { upsertIntent } from '../_lib/store';
-import { randomUUID } from 'crypto';
+import { getClients } from '../_lib/viem';
+import { getChainConfig } from '@/lib/chains';
+import { createIntent, readMultisigConfig } from '../_lib/create';
+import { signingDigest } from '../_lib/aggregate';
+import { authenticateProposer } from '../_lib/proposer';
+import { parseIntentQuery, queryIntents } from '../_lib/query';
+import { serializeIntent } from '../_lib/serialize';
+import { REDACTABLE, publicRedaction, redactIntent } from '../_lib/admin';
+import { readTokenMeta } from '../_lib/tokens';
+import { allocateSeqKey } from '../_lib/lanes';
+import { refreshStale } from '../_lib/stale';
+import { decodeCall } from '@/lib/calldata';
+import { decodeErc20Call, type TokenMeta } from '@/lib/erc20';
+import { AUTO_SEQ_KEY } from '@/lib/nonce';
+import { apiError, failureResponse, withStoreErrors } from '../_lib/errors';
+import { parseCreatePayload } from '../_lib/schemas';
 
 /**
  * POST /api/intents
@@ -26,67 +40,130 @@ import { randomUUID } from 'crypto';
  * @param req Request containing intent parameters
  * @returns Created intent with ID and digest
  */
-export async function POST(req: Request) {
-  const body = await req.json();
+export const POST = withStoreErrors(async function POST(req: Request) {
+  const parsed = parseCreatePayload(await req.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
   const {
     account,            // 0xAccount (Porto)
-    chainId,            // 84532
+    chainId,            // must be in the chain registry (NEXT_PUBLIC_CHAINS)
     externalKeyHash,    // bytes32 (multisig policy key)
-    seqKey = '0',       // string uint192 (default 0)
-    calls,              // [{to, value, data}]
-    multisigAddress,    // 0xMultiSigSigner
-  } = body as {
-    account: Hex; chainId: number; externalKeyHash: Hex; seqKey?: string;
-    calls: { to: Hex; value: string | number; data: Hex }[];
-    multisigAddress: Hex;
-  };
+    seqKey,             // uint192 (default 0), or 'auto' for a lane with no open intents
+    calls,              // [{to, value, data, abi?}]
+    multisigAddress: requestedMultisig, // optional; must be the chain's MultisigSigner deployment
+    expiresAt,          // optional ms timestamp after which the intent can no longer be signed or submitted
+    prehash,            // optional: owners sign sha256(digest) and the wrapper's prehash byte is set
+    proposal,           // { challenge, wrappedSignature } from an owner passkey (optional under an open policy)
+  } = parsed.value;
 
-  // 1) Fetch config (threshold + owners) to store alongside the intent
-  
-  const [threshold, ownerKeyHashes] = (await publicClient.readContract({
-    address: multisigAddress,
-    abi: multiSigAbi as any,
-    functionName: 'getConfig',
-    args: [account, externalKeyHash],
-  })) as [bigint, Hex[]];
+  const chain = getChainConfig(chainId);
+  const clients = getClients(chainId);
+  if (!chain || !clients) {
+    return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${chainId}`);
+  }
+  const { publicClient } = clients;
+  // Owners come from the chain's deployment only: another contract's getConfig could list anyone
+  const multisigAddress = chain.multisig;
+  if (requestedMultisig && requestedMultisig.toLowerCase() !== multisigAddress.toLowerCase()) {
+    return apiError('INVALID_PAYLOAD', `multisigAddress must be the chain's MultisigSigner (${multisigAddress})`, 400, {
+      field: 'multisigAddress',
+    });
+  }
 
+  const seqKeyBig = seqKey === AUTO_SEQ_KEY ? allocateSeqKey(account, chain.chain.id) : seqKey;
 
-  if (!ownerKeyHashes?.length) {
-    return NextResponse.json({ error: 'No owners configured for this keyHash' }, { status: 400 });
+  // 0) Calldata must decode against the ABI fragment when one is given
+  for (const [i, c] of calls.entries()) {
+    if (!c.abi) continue;
+    try {
+      decodeCall(c.abi, c.data);
+    } catch {
+      return apiError(
+        'INVALID_PAYLOAD',
+        `Call #${i + 1}: calldata does not match ${c.abi.name}(${c.abi.inputs.map((p) => p.type).join(',')})`,
+        400,
+        { field: `calls[${i}].data` },
+      );
+    }
   }
+  // ERC-20 calls get token metadata attached so intent pages can show human-readable amounts
+  const tokens = await Promise.all(
+    calls.map((c) => (decodeErc20Call(c.data) ? readTokenMeta(chain.chain.id, c.to).catch(() => undefined) : undefined)),
+  );
+  const intentCalls = calls.map((c, i) => ({
+    to: c.to,
+    value: c.value,
+    data: c.data,
+    ...(c.abi ? { abi: c.abi } : {}),
+    ...(tokens[i] ? { token: tokens[i] as TokenMeta } : {}),
+  }));
 
-  // 2) Get nonce for sequence key (uint192)
-  const seqKeyBig = BigInt(seqKey);
-  const nonce = (await publicClient.readContract({
-    address: account,
-    abi: accountAbi,
-    functionName: 'getNonce',
-    args: [seqKeyBig],
-  })) as bigint;
-
-  // 3) Compute digest (account.computeDigest(calls, nonce))
-  // viem encodes tuple[] automatically from {to,value,data}
-  const digest = (await publicClient.readContract({
-    address: account,
-    abi: accountAbi,
-    functionName: 'computeDigest',
-    args: [calls.map(c => ({ ...c, value: BigInt(c.value) })), nonce],
-  })) as Hex;
+  // Only owners (or anyone, under an open policy) may propose
+  const config = await readMultisigConfig(publicClient, multisigAddress, account, externalKeyHash).catch(() => undefined);
+  if (!config) {
+    return apiError('UPSTREAM_ERROR', `Could not read getConfig from ${multisigAddress}`, 502);
+  }
+  if (!config.owners?.length) {
+    return apiError('MULTISIG_NOT_CONFIGURED', 'No owners configured for this keyHash');
+  }
+  const auth = await authenticateProposer(publicClient, {
+    account,
+    chainId: chain.chain.id,
+    owners: config.owners,
+    proposal,
+  });
+  if ('error' in auth) return failureResponse(auth);
 
-  const intent = upsertIntent({
-    id: randomUUID(),
+  const created = await createIntent(publicClient, {
     account,
-    chainId,
+    chainId: chain.chain.id,
     externalKeyHash,
     seqKey: seqKeyBig,
-    nonce,
-    digest,
-    calls: calls.map(c => ({ ...c, value: BigInt(c.value) })),
-    threshold: Number(threshold),
-    owners: ownerKeyHashes,
-    signatures: [],
-    status: 'collecting',
+    calls: intentCalls,
+    multisig: multisigAddress,
+    expiresAt,
+    prehash,
+    config,
+    proposer: auth.proposer,
   });
+  if ('error' in created) return failureResponse(created);
+  const { intent } = created;
+
+  return NextResponse.json({
+    id: intent.id,
+    digest: intent.digest,
+    signingDigest: signingDigest(intent),
+    seqKey: intent.seqKey.toString(),
+    nonce: intent.nonce.toString(),
+    expiresAt: intent.expiresAt,
+    threshold: intent.threshold,
+    owners: intent.owners,
+    proposer: intent.proposer,
+  });
+});
+
+/**
+ * GET /api/intents
+ * 
+ * Lists intents. Query parameters (all optional):
+ * - account, externalKeyHash: exact match (case-insensitive)
+ * - status: comma-separated list, e.g. `collecting,submitted`
+ * - awaitingSigner: owner keyHash that is an owner of the intent but has not signed it yet
+ * - sort: `createdAt` (default) | `nonce`; order: `desc` (default) | `asc`
+ * - limit: page size (default 20, max 100); cursor: `nextCursor` from the previous page
+ *
+ * Collecting intents on the returned page are checked against their lane nonce and
+ * marked `stale` if it has moved on. Signatures and calldata are redacted unless an admin
+ * bearer token asks for them with `reveal` (see publicRedaction).
+ * 
+ * @param req Request with query parameters
+ * @returns Serialized intents and the cursor for the next page
+ */
+export const GET = withStoreErrors(async function GET(req: Request) {
+  const parsed = parseIntentQuery(new URL(req.url).searchParams);
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error);
 
-  return NextResponse.json({ id: intent.id, digest: intent.digest, threshold: intent.threshold, owners: intent.owners });
-}
\ No newline at end of file
+  const { items, nextCursor } = queryIntents(parsed.query);
+  const fresh = await refreshStale(items);
+  const intents = fresh.map((i) => redactIntent(serializeIntent(i), publicRedaction(req, i, [...REDACTABLE])));
+  return NextResponse.json({ intents, nextCursor: nextCursor ?? null });
+});
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { Hex, isAddress } from 'viem';
+import { getClients } from '../_lib/viem';
+import { allocateSeqKey, readLanes } from '../_lib/lanes';
+import { DEFAULT_CHAIN_ID } from '@/lib/chains';
+import { apiError, withStoreErrors } from '../_lib/errors';
+
+/**
+ * GET /api/lanes?account=0x…&chainId=84532
+ *
+ * Lists the account's nonce lanes with their current on-chain nonce and open intent count
+ *
+ * @param req Request with account and optional chainId search params
+ * @returns { lanes: [{ seqKey, nonce, sequence, open }], next } where next is the lane "auto" would pick
+ */
+export const GET = withStoreErrors(async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const account = params.get('account') ?? '';
+  if (!isAddress(account)) {
+    return apiError('INVALID_PAYLOAD', 'Invalid account address');
+  }
+  const chainId = Number(params.get('chainId') ?? DEFAULT_CHAIN_ID);
+  const clients = getClients(chainId);
+  if (!clients) {
+    return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${chainId}`);
+  }
+
+  try {
+    const lanes = await readLanes(clients.publicClient, account as Hex, chainId);
+    return NextResponse.json({
+      lanes: lanes.map((l) => ({
+        seqKey: l.seqKey.toString(),
+        nonce: l.nonce.toString(),
+        sequence: l.sequence.toString(),
+        open: l.open,
+      })),
+      next: allocateSeqKey(account as Hex, chainId).toString(),
+    });
+  } catch (e) {
+    console.warn('lane nonce read failed:', e);
+    return apiError('UPSTREAM_ERROR', 'Failed to read nonces (is this an IthacaAccount?)');
+  }
+});
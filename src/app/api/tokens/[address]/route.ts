@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { Hex, isAddress } from 'viem';
+import { readTokenMeta } from '../../_lib/tokens';
+import { getClients } from '../../_lib/viem';
+import { DEFAULT_CHAIN_ID } from '@/lib/chains';
+import { apiError } from '../../_lib/errors';
+
+/**
+ * GET /api/tokens/[address]
+ *
+ * Returns ERC-20 symbol and decimals for the intent templates
+ * Query: chainId (defaults to the first configured chain)
+ *
+ * @param req Request with optional chainId search param
+ * @param params Route parameters containing the token address
+ * @returns { address, chainId, symbol, decimals }
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ address: string }> }) {
+  const { address } = await params;
+  if (!isAddress(address)) {
+    return apiError('INVALID_PAYLOAD', 'Invalid token address');
+  }
+  const chainId = Number(new URL(req.url).searchParams.get('chainId') ?? DEFAULT_CHAIN_ID);
+  if (!getClients(chainId)) {
+    return apiError('UNSUPPORTED_CHAIN', `Unsupported chain ${chainId}`);
+  }
+
+  try {
+    const meta = await readTokenMeta(chainId, address as Hex);
+    return NextResponse.json({ address, chainId, ...meta });
+  } catch (e) {
+    console.warn('token metadata read failed:', e);
+    return apiError('INVALID_PAYLOAD', 'Not an ERC-20 token (symbol/decimals unreadable)');
+  }
+}
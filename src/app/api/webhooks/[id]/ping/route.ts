@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { authorizeAdmin, webhookInScope } from '../../../_lib/admin';
+import { getWebhook, pingWebhook } from '../../../_lib/webhooks';
+import { apiError, failureResponse, withStoreErrors } from '../../../_lib/errors';
+
+/**
+ * POST /api/webhooks/[id]/ping
+ *
+ * Sends a signed `ping` delivery and waits for the first attempt (retries continue in the
+ * background like any other delivery).
+ *
+ * @param params Route parameters containing the subscription ID
+ * @returns The first attempt from the delivery log
+ */
+export const POST = withStoreErrors(async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const scope = authorizeAdmin(req);
+  if ('error' in scope) return failureResponse(scope);
+  const { id } = await params;
+  const hook = getWebhook(id);
+  if (!hook || !webhookInScope(scope, hook)) return apiError('NOT_FOUND', 'Not found', 404);
+  if (!hook.active) return apiError('INVALID_STATE', 'Webhook is disabled');
+
+  await pingWebhook(id);
+  const deliveries = getWebhook(id)?.deliveries ?? [];
+  return NextResponse.json({ delivery: deliveries[deliveries.length - 1] });
+});
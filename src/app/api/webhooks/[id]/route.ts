@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { authorizeAdmin, webhookInScope } from '../../_lib/admin';
+import { checkWebhookUrl, deleteWebhook, getWebhook, publicWebhook, updateWebhook } from '../../_lib/webhooks';
+import { parseWebhookPatch } from '../../_lib/schemas';
+import { apiError, failureResponse, withStoreErrors } from '../../_lib/errors';
+
+// The caller's subscription, or the response to send instead (out of scope reads as not found)
+const load = async (req: Request, params: Promise<{ id: string }>) => {
+  const scope = authorizeAdmin(req);
+  if ('error' in scope) return failureResponse(scope);
+  const hook = getWebhook((await params).id);
+  if (!hook || !webhookInScope(scope, hook)) return apiError('NOT_FOUND', 'Not found', 404);
+  return hook;
+};
+
+/**
+ * GET /api/webhooks/[id]
+ *
+ * @param params Route parameters containing the subscription ID
+ * @returns The subscription (no secret) with its delivery log, oldest first
+ */
+export const GET = withStoreErrors(async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const hook = await load(req, params);
+  if (hook instanceof NextResponse) return hook;
+  return NextResponse.json({ ...publicWebhook(hook), deliveries: hook.deliveries });
+});
+
+/**
+ * PATCH /api/webhooks/[id]
+ *
+ * @param req Body: { active?, events?, url? }
+ * @param params Route parameters containing the subscription ID
+ * @returns The updated subscription
+ */
+export const PATCH = withStoreErrors(async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const loaded = await load(req, params);
+  if (loaded instanceof NextResponse) return loaded;
+
+  const parsed = parseWebhookPatch(await req.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
+  const patch = parsed.value;
+
+  if (patch.url) {
+    const refused = await checkWebhookUrl(patch.url);
+    if (refused) return apiError('INVALID_PAYLOAD', refused, 400, { field: 'url' });
+  }
+
+  const hook = updateWebhook(loaded.id, patch);
+  if (!hook) return apiError('NOT_FOUND', 'Not found', 404);
+  return NextResponse.json(publicWebhook(hook));
+});
+
+/**
+ * DELETE /api/webhooks/[id]
+ *
+ * @param params Route parameters containing the subscription ID
+ * @returns { ok }
+ */
+export const DELETE = withStoreErrors(async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const hook = await load(req, params);
+  if (hook instanceof NextResponse) return hook;
+  deleteWebhook(hook.id);
+  return NextResponse.json({ ok: true });
+});
@@ -0,0 +1,77 @@
+/**
+ * Local webhook receiver
+ *
+ * A delivery target for testing subscriptions without an external service. Enable it with
+ * WEBHOOK_RECEIVER=true and subscribe http://localhost:3000/api/webhooks/receiver. It checks
+ * the HMAC signature with the secret of the subscription named in X-Webhook-Subscription and
+ * keeps the latest deliveries in memory. `?fail=N` answers 500 to the first N attempts of each
+ * delivery, to watch the retry backoff.
+ */
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { getWebhook, signPayload } from '../../_lib/webhooks';
+import { apiError, withStoreErrors } from '../../_lib/errors';
+
+type Received = { at: number; id: string | null; event: string | null; verified: boolean; status: number; body: unknown };
+
+const KEEP = 50;
+
+const state = (() => {
+  const g = globalThis as unknown as { webhookReceiver?: { received: Received[]; attempts: Map<string, number> } };
+  g.webhookReceiver ??= { received: [], attempts: new Map() };
+  return g.webhookReceiver;
+})();
+
+const enabled = () => process.env.WEBHOOK_RECEIVER === 'true';
+const disabled = () => apiError('FEATURE_DISABLED', 'Webhook receiver is disabled (WEBHOOK_RECEIVER)', 404);
+
+const verify = (req: Request, body: string) => {
+  const hook = getWebhook(req.headers.get('x-webhook-subscription') ?? '');
+  const timestamp = req.headers.get('x-webhook-timestamp');
+  const signature = req.headers.get('x-webhook-signature');
+  if (!hook || !timestamp || !signature) return false;
+  const expected = Buffer.from(signPayload(hook.secret, timestamp, body));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+};
+
+/**
+ * POST /api/webhooks/receiver
+ *
+ * @param req A webhook delivery
+ * @returns 200 when the signature verifies, 401 otherwise (500 while `?fail` applies)
+ */
+export const POST = withStoreErrors(async function POST(req: Request) {
+  if (!enabled()) return disabled();
+
+  const body = await req.text();
+  const id = req.headers.get('x-webhook-id');
+  const verified = verify(req, body);
+
+  const fail = Number(new URL(req.url).searchParams.get('fail') ?? 0);
+  const attempt = (state.attempts.get(id ?? '') ?? 0) + 1;
+  if (state.attempts.size > 1000) state.attempts.clear();
+  if (id) state.attempts.set(id, attempt);
+  const status = !verified ? 401 : attempt <= fail ? 500 : 200;
+
+  let parsed: unknown = body;
+  try {
+    parsed = JSON.parse(body);
+  } catch {}
+  state.received = [
+    ...state.received,
+    { at: Date.now(), id, event: req.headers.get('x-webhook-event'), verified, status, body: parsed },
+  ].slice(-KEEP);
+
+  return NextResponse.json({ ok: status === 200 }, { status });
+});
+
+/**
+ * GET /api/webhooks/receiver
+ *
+ * @returns { received } latest deliveries, oldest first
+ */
+export const GET = withStoreErrors(async function GET() {
+  if (!enabled()) return disabled();
+  return NextResponse.json({ received: state.received });
+});
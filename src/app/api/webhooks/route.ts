@@ -0,0 +1,68 @@
+/**
+ * Webhook Subscriptions API Route
+ *
+ * Subscriptions receive signed POSTs for intent lifecycle events (see _lib/webhooks.ts).
+ * Scoping by account, chainId and/or externalKeyHash limits them to one multisig. Every route
+ * takes an admin bearer token (see _lib/admin.ts); a session only sees and creates
+ * subscriptions limited to its own account and chain.
+ */
+import { NextResponse } from 'next/server';
+import { authorizeAdmin, webhookInScope } from '../_lib/admin';
+import { checkWebhookUrl, createWebhook, listWebhooks, publicWebhook } from '../_lib/webhooks';
+import { parseWebhookPayload } from '../_lib/schemas';
+import { apiError, failureResponse, withStoreErrors } from '../_lib/errors';
+
+/**
+ * GET /api/webhooks
+ *
+ * @param req Optional ?account and ?externalKeyHash filters
+ * @returns { webhooks } without secrets
+ */
+export const GET = withStoreErrors(async function GET(req: Request) {
+  const scope = authorizeAdmin(req);
+  if ('error' in scope) return failureResponse(scope);
+
+  const url = new URL(req.url);
+  const account = url.searchParams.get('account')?.toLowerCase();
+  const externalKeyHash = url.searchParams.get('externalKeyHash')?.toLowerCase();
+
+  const webhooks = listWebhooks()
+    .filter((h) => webhookInScope(scope, h))
+    .filter((h) => !account || h.account?.toLowerCase() === account)
+    .filter((h) => !externalKeyHash || h.externalKeyHash?.toLowerCase() === externalKeyHash)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(publicWebhook);
+  return NextResponse.json({ webhooks });
+});
+
+/**
+ * POST /api/webhooks
+ *
+ * @param req Body: { url, events?, account?, chainId?, externalKeyHash?, secret? }
+ * @returns The subscription with its secret (the only time the secret is returned)
+ */
+export const POST = withStoreErrors(async function POST(req: Request) {
+  const scope = authorizeAdmin(req);
+  if ('error' in scope) return failureResponse(scope);
+
+  const parsed = parseWebhookPayload(await req.json().catch(() => undefined));
+  if ('error' in parsed) return apiError('INVALID_PAYLOAD', parsed.error, 400, { field: parsed.field });
+  let payload = parsed.value;
+
+  // A session subscribes to its own account on its own chain, whatever the body says
+  if (scope.account) {
+    if (
+      (payload.account && payload.account.toLowerCase() !== scope.account.toLowerCase()) ||
+      (payload.chainId !== undefined && payload.chainId !== scope.chainId)
+    ) {
+      return apiError('UNAUTHORIZED', 'A session can only subscribe to its own account and chain', 403);
+    }
+    payload = { ...payload, account: scope.account, chainId: scope.chainId };
+  }
+
+  const refused = await checkWebhookUrl(payload.url);
+  if (refused) return apiError('INVALID_PAYLOAD', refused, 400, { field: 'url' });
+
+  const hook = createWebhook(payload);
+  return NextResponse.json({ ...publicWebhook(hook), secret: hook.secret });
+});
@@ -1,14 +1,29 @@
 'use client';
 import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
-import type { Hex } from 'viem';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { formatEther, type Hex } from 'viem';
 import { Key } from 'porto';
+import CallView, { CallForView } from '@/components/CallView';
+import ConfigDiff from '@/components/ConfigDiff';
+import ConfigDriftNotice from '@/components/ConfigDriftNotice';
+import SimulationPanel from '@/components/SimulationPanel';
+import EventTimeline from '@/components/EventTimeline';
+import { liveStatus, useIntentStream } from '@/lib/useIntentStream';
+import TxProgress from '@/components/TxProgress';
+import { applyGovernanceCalls } from '@/lib/governance';
+import { getChainConfig } from '@/lib/chains';
+import { splitNonce } from '@/lib/nonce';
+import { describeApiError } from '@/lib/apiErrors';
+import { passkeyPublicKey, signProposal } from '@/lib/proposal';
 
 export default function IntentDetail() {
   const { id } = useParams<{ id: string }>();
+  const router = useRouter();
   const [intent, setIntent] = useState<any>();
   const [status, setStatus] = useState<string>('collecting');
   const [busy, setBusy] = useState(false);
+  const [reloads, setReloads] = useState(0); // bumps the timeline after every reload or action
 
   // Use existing Porto key for signing
   const [portoKey, setPortoKey] = useState<any | null>(null);
@@ -21,11 +36,12 @@ export default function IntentDetail() {
       if (!res.ok) throw new Error(`GET /api/intents/${id} failed`);
       const data = await res.json();
       setIntent(data);
-      setStatus(data.status || 'collecting');
+      setStatus(liveStatus(data));
     } catch {
       // As a last resort, keep a placeholder; but we will disable signing if digest is missing.
       setIntent((prev: any) => prev ?? { id, digest: undefined });
     }
+    setReloads((n) => n + 1);
   }
 
 
@@ -64,18 +80,18 @@ export default function IntentDetail() {
 
       const wrapped = await Key.sign(existingKey, {
         address: null, // Sign raw digest for call bundle (not replay-safe ERC-1271)
-        payload: intent.digest as Hex,
+        payload: (intent.signingDigest ?? intent.digest) as Hex,
       });
       
 
       const res = await fetch(`/api/intents/${id}/sign`, {
         method: 'POST',
-        body: JSON.stringify({ wrappedSignature: wrapped }),
+        body: JSON.stringify({ wrappedSignature: wrapped, publicKey: passkeyPublicKey(credentialData.publicKey) }),
         headers: { 'content-type': 'application/json' },
       }).then((r) => r.json());
 
       if (!res.ok) {
-        alert(res.error || 'sign failed');
+        alert(describeApiError(res, 'sign failed'));
         return;
       }
 
@@ -85,6 +101,62 @@ export default function IntentDetail() {
       alert(e?.message || 'Sign error');
     } finally {
       setBusy(false);
+      setReloads((n) => n + 1);
+    }
+  }
+
+  async function cancel() {
+    const hasSigs = intent?.signatures?.length > 0;
+    if (
+      !confirm(
+        hasSigs
+          ? 'Signatures exist for this intent. Cancelling proposes an invalidateNonce intent that owners must sign and submit to burn the signed nonce. Continue?'
+          : 'Cancel this intent?',
+      )
+    ) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const proposal = await signProposal(intent.account, intent.chainId);
+      const res = await fetch(`/api/intents/${id}/cancel`, {
+        method: 'POST',
+        body: JSON.stringify({ proposal }),
+        headers: { 'content-type': 'application/json' },
+      }).then((r) => r.json());
+      if (!res.ok) {
+        alert(describeApiError(res, 'cancel failed'));
+        return;
+      }
+      await fetchIntent();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'cancel failed');
+    } finally {
+      setBusy(false);
+      setReloads((n) => n + 1);
+    }
+  }
+
+  async function rebase() {
+    setBusy(true);
+    try {
+      const proposal = await signProposal(intent.account, intent.chainId);
+      const res = await fetch(`/api/intents/${id}/rebase`, {
+        method: 'POST',
+        body: JSON.stringify({ proposal }),
+        headers: { 'content-type': 'application/json' },
+      }).then((r) => r.json());
+      if (!res.id) {
+        alert(describeApiError(res, 'rebase failed'));
+        return;
+      }
+      // Signers continue on the rebased intent
+      router.push(`/intent/${res.id}`);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'rebase failed');
+    } finally {
+      setBusy(false);
+      setReloads((n) => n + 1);
     }
   }
 
@@ -94,11 +166,13 @@ export default function IntentDetail() {
       const res = await fetch(`/api/intents/${id}/submit`, { method: 'POST' }).then((r) => r.json());
       if (res.ok) {
         setStatus(res.status || 'submitted');
+        await fetchIntent();
       } else {
-        alert(res.error || 'submit failed');
+        alert(describeApiError(res, 'submit failed'));
       }
     } finally {
       setBusy(false);
+      setReloads((n) => n + 1);
     }
   }
 
@@ -125,12 +199,134 @@ export default function IntentDetail() {
     loadExistingPasskey();
   }, [id]);
 
+  // Live signatures, status and receipt from other signers and the background tracker
+  useIntentStream(id, (data) => {
+    // lastCheckedAt only comes with GET /api/intents/[id]
+    setIntent((prev?: { lastCheckedAt?: number }) => ({ ...data, lastCheckedAt: prev?.lastCheckedAt }));
+    setStatus(liveStatus(data));
+    if (data.eventCount !== intent?.eventCount) setReloads((n) => n + 1);
+  });
+
   const digestKnown = Boolean(intent?.digest);
+  const chainConfig = getChainConfig(intent?.chainId);
+  const multisig = chainConfig?.multisig;
+  const nativeSymbol = chainConfig?.chain.nativeCurrency.symbol ?? 'ETH';
+  const closed = status === 'cancelled' || status === 'expired' || status === 'stale';
+
+  // Owner/threshold changes proposed by this intent, relative to the config it was created under
+  const governance =
+    multisig && intent?.calls && intent?.owners
+      ? applyGovernanceCalls(
+          multisig,
+          intent.externalKeyHash,
+          { threshold: intent.threshold, owners: intent.owners },
+          intent.calls,
+        )
+      : undefined;
 
   return (
     <main className="max-w-xl mx-auto p-6 text-white font-mono">
       <h1 className="text-xl mb-2">Intent {id}</h1>
 
+      {intent?.chainId && (
+        <div className="text-xs text-gray-400 mb-1">
+          Chain: {chainConfig ? `${chainConfig.chain.name} (${intent.chainId})` : <span className="text-red-500">{intent.chainId} (not configured)</span>}
+        </div>
+      )}
+
+      {intent?.seqKey !== undefined && (
+        <div className="text-xs text-gray-400 mb-1">
+          Nonce lane: <code>{intent.seqKey}</code> · nonce #{splitNonce(intent.nonce).sequence.toString()}
+        </div>
+      )}
+
+      {intent?.prehash && (
+        <div className="text-xs text-gray-400 mb-1">
+          Prehashed: owners sign <code className="break-all">{intent.signingDigest}</code> (sha256 of the digest)
+        </div>
+      )}
+
+      <div className="text-xs text-gray-400 mb-1">
+        Proposed by:{' '}
+        {intent?.proposer ? (
+          <>
+            <code className="break-all">{intent.proposer.keyHash}</code>
+            {!intent.proposer.owner && <span className="text-yellow-500"> (not an owner)</span>}
+          </>
+        ) : intent?.cancels ? (
+          'the server (cancellation)'
+        ) : (
+          'unauthenticated proposer'
+        )}
+      </div>
+
+      {intent?.expiresAt && (
+        <div className="text-xs text-gray-400 mb-1">
+          {status === 'expired' ? 'Expired' : 'Expires'}: {new Date(intent.expiresAt).toLocaleString()}
+        </div>
+      )}
+
+      {intent?.cancels && (
+        <div className="p-2 mb-2 border border-gray-800 text-xs text-yellow-500">
+          This intent cancels <Link href={`/intent/${intent.cancels}`} className="underline">{intent.cancels}</Link> by
+          invalidating its nonce.
+        </div>
+      )}
+
+      {status === 'cancelled' && (
+        <div className="p-2 mb-2 border border-red-900 text-xs text-red-400">
+          {intent?.cancelledBy ? (
+            <>
+              Cancelled. Collected signatures stay valid until{' '}
+              <Link href={`/intent/${intent.cancelledBy}`} className="underline">the invalidateNonce intent</Link> is signed
+              and executed.
+            </>
+          ) : (
+            'Cancelled before anyone signed.'
+          )}
+        </div>
+      )}
+
+      {intent?.rebasedFrom && (
+        <div className="p-2 mb-2 border border-gray-800 text-xs text-gray-400">
+          Rebased from stale intent <Link href={`/intent/${intent.rebasedFrom}`} className="underline">{intent.rebasedFrom}</Link>.
+          Earlier signatures do not carry over; please sign again.
+        </div>
+      )}
+
+      {status === 'stale' && (
+        <div className="p-2 mb-2 border border-yellow-900 text-xs text-yellow-500 space-y-2">
+          <div>
+            Stale: another transaction used nonce #{splitNonce(intent.nonce).sequence.toString()} on this lane, so this
+            digest can never execute.
+          </div>
+          {intent?.rebasedTo ? (
+            <div>
+              Rebased to <Link href={`/intent/${intent.rebasedTo}`} className="underline">{intent.rebasedTo}</Link>; sign
+              that one instead.
+            </div>
+          ) : (
+            <button
+              className="px-3 py-1 bg-yellow-600 text-black font-bold disabled:opacity-50 hover:bg-yellow-500"
+              disabled={busy}
+              onClick={rebase}
+            >
+              Rebase to current nonce
+            </button>
+          )}
+        </div>
+      )}
+
+      {intent?.configDrift && (status === 'collecting' || status === 'ready' || status.startsWith('collected')) && (
+        <ConfigDriftNotice drift={intent.configDrift} threshold={intent.threshold} signed={intent.signatures?.length ?? 0} />
+      )}
+
+      {status === 'expired' && intent?.signatures?.length > 0 && (
+        <div className="p-2 mb-2 border border-yellow-900 text-xs text-yellow-500">
+          Expired with signatures collected. Cancel it to invalidate the signed nonce on-chain.
+        </div>
+      )}
+
       <div className="text-xs text-gray-400 mb-4">
         {digestKnown ? (
           <>Digest: <code>{intent.digest}</code></>
@@ -139,6 +335,41 @@ export default function IntentDetail() {
         )}
       </div>
 
+      {intent?.calls?.length > 0 && (
+        <div className="mb-4">
+          <h2 className="font-bold mb-2">
+            Calls ({intent.calls.length}){' '}
+            <span className="text-xs font-normal text-gray-400">
+              total {formatEther(intent.calls.reduce((sum: bigint, c: CallForView) => sum + BigInt(c.value), BigInt(0)))} {nativeSymbol}
+            </span>
+          </h2>
+          <div className="space-y-2">
+            {intent.calls.map((c: CallForView, i: number) => (
+              <CallView key={i} call={c} index={i} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {governance?.touched && (
+        <div className="mb-4">
+          <h2 className="font-bold mb-2">Config Change</h2>
+          <div className="p-3 border border-gray-800">
+            <ConfigDiff before={{ threshold: intent.threshold, owners: intent.owners }} after={governance.config} />
+            {governance.error && <p className="text-xs text-red-500 mt-2">{governance.error}</p>}
+          </div>
+        </div>
+      )}
+
+      {intent && (
+        <SimulationPanel
+          key={intent.id}
+          intentId={intent.id}
+          initial={intent.simulation}
+          active={status === 'collecting' || status === 'ready' || status.startsWith('collected')}
+        />
+      )}
+
       <div className="mb-4">
         <h2 className="font-bold mb-2">Sign with Porto Passkey</h2>
         <div className="p-3 border border-gray-800 space-y-3">
@@ -163,27 +394,53 @@ export default function IntentDetail() {
       <div className="flex gap-2">
         <button
           className="px-4 py-2 bg-blue-600 text-white disabled:opacity-50 hover:bg-blue-700"
-          disabled={busy || !digestKnown}
+          disabled={busy || !digestKnown || closed}
           onClick={sign}
         >
           {busy ? 'Signing...' : 'Sign Intent'}
         </button>
         <button
           className="px-4 py-2 bg-white text-black disabled:opacity-50 hover:bg-gray-200"
-          disabled={busy}
+          disabled={busy || closed || status === 'submitting'}
           onClick={submit}
         >
           Submit
         </button>
+        {(status === 'collecting' || status === 'failed' || (status === 'expired' && !intent?.cancelledBy)) && (
+          <button
+            className="px-4 py-2 border border-red-900 text-red-400 disabled:opacity-50 hover:bg-gray-900"
+            disabled={busy}
+            onClick={cancel}
+          >
+            Cancel Intent
+          </button>
+        )}
       </div>
 
       <div className="mt-4 text-sm">
         Status:{' '}
-        <span className={status.includes('ready') || status === 'confirmed' ? 'text-green-500' : 'text-yellow-500'}>
+        <span className={status.includes('ready') || status === 'confirmed' ? 'text-green-500' : closed ? 'text-red-500' : 'text-yellow-500'}>
           {status}
         </span>
       </div>
 
+      {intent?.txHash && (
+        <TxProgress
+          intentId={id}
+          account={intent.account}
+          chainId={intent.chainId}
+          txHash={intent.txHash}
+          status={status}
+          submittedAt={intent.submittedAt}
+          lastCheckedAt={intent.lastCheckedAt}
+          receipt={intent.receipt}
+          attempts={intent.attempts}
+          onReplaced={fetchIntent}
+        />
+      )}
+
+      <EventTimeline intentId={id} chainId={intent?.chainId} refreshKey={reloads} />
+
       {!portoKey && (
         <p className="text-xs text-yellow-500 mt-4">
           Create a passkey above to sign this intent.
@@ -1,51 +1,57 @@
 'use client';
 import { useState } from 'react';
 import { Hex } from 'viem';
-
-const MULTISIG_ADDRESS = process.env.NEXT_PUBLIC_MULTISIG_SIGNER as Hex;
+import BatchEditor, { batchError } from '@/components/BatchEditor';
+import { DraftCall, emptyCall, toApiCall } from '@/components/CallComposer';
+import LaneSelect from '@/components/LaneSelect';
+import ExpirySelect, { expiresAtFromTtl } from '@/components/ExpirySelect';
+import { DEFAULT_CHAIN_ID, chainConfigs, getChainConfig } from '@/lib/chains';
+import { AUTO_SEQ_KEY } from '@/lib/nonce';
+import { signProposal } from '@/lib/proposal';
+import { describeApiError } from '@/lib/apiErrors';
 
 export default function NewIntent() {
   const [account, setAccount] = useState<Hex>('0x');
   const [externalKeyHash, setExternalKeyHash] = useState<Hex>('0x');
-  const [to, setTo] = useState<Hex>('0x');
-  const [amount, setAmount] = useState('0'); // wei
+  const [chainId, setChainId] = useState(DEFAULT_CHAIN_ID);
+  const [seqKey, setSeqKey] = useState<string>(AUTO_SEQ_KEY);
+  const [ttl, setTtl] = useState(0);
+  const [lane, setLane] = useState<string>();
+  const [calls, setCalls] = useState<DraftCall[]>(() => [emptyCall()]);
   const [digest, setDigest] = useState<Hex>();
   const [intentId, setIntentId] = useState<string>();
 
   async function create() {
-    if (!MULTISIG_ADDRESS) {
-      alert('NEXT_PUBLIC_MULTISIG_SIGNER not configured');
+    const multisig = getChainConfig(chainId)?.multisig;
+    if (!multisig) {
+      alert(`No MultisigSigner configured for chain ${chainId}`);
       return;
     }
     
-    const calls = [{ to, value: amount, data: '0x' as Hex }];
     try {
+      const proposal = await signProposal(account, chainId);
       const response = await fetch('/api/intents', {
         method: 'POST',
         body: JSON.stringify({
           account,
-          chainId: 84532,
+          chainId,
           externalKeyHash,
-          seqKey: '0',
-          calls,
-          multisigAddress: MULTISIG_ADDRESS,
+          seqKey,
+          expiresAt: expiresAtFromTtl(ttl),
+          calls: calls.map(toApiCall),
+          multisigAddress: multisig,
+          proposal,
         }),
         headers: { 'content-type': 'application/json' },
       });
       
-      if (!response.ok) {
-        const text = await response.text();
-        console.error('API Error:', response.status, text);
-        alert(`API Error ${response.status}: ${text}`);
-        return;
-      }
-      
-      const res = await response.json();
+      const res = await response.json().catch(() => ({ error: `API Error ${response.status}` }));
       if (res.id) {
         setIntentId(res.id);
         setDigest(res.digest);
+        setLane(res.seqKey);
       } else {
-        alert(res.error || 'failed');
+        alert(describeApiError(res, 'failed'));
       }
     } catch (error) {
       console.error('Request failed:', error);
@@ -57,29 +63,40 @@ export default function NewIntent() {
     <main className="max-w-xl mx-auto p-6 text-white font-mono">
       <h1 className="text-xl mb-4">New Intent</h1>
 
+      <label className="block text-sm">Chain</label>
+      <select className="w-full bg-black border border-gray-800 p-2 mb-3" value={chainId} onChange={(e) => setChainId(Number(e.target.value))}>
+        {chainConfigs.map(({ chain }) => (
+          <option key={chain.id} value={chain.id}>{chain.name} ({chain.id})</option>
+        ))}
+      </select>
+
       <label className="block text-sm">Account</label>
       <input className="w-full bg-black border border-gray-800 p-2 mb-3" value={account} onChange={(e) => setAccount(e.target.value as Hex)} />
 
       <label className="block text-sm">External Key Hash</label>
       <input className="w-full bg-black border border-gray-800 p-2 mb-3" value={externalKeyHash} onChange={(e) => setExternalKeyHash(e.target.value as Hex)} />
 
-      <div className="grid grid-cols-2 gap-2">
-        <div>
-          <label className="block text-sm">To</label>
-          <input className="w-full bg-black border border-gray-800 p-2 mb-3" value={to} onChange={(e) => setTo(e.target.value as Hex)} />
-        </div>
-        <div>
-          <label className="block text-sm">Amount (wei)</label>
-          <input className="w-full bg-black border border-gray-800 p-2 mb-3" value={amount} onChange={(e) => setAmount(e.target.value)} />
-        </div>
+      <label className="block text-sm">Nonce Lane</label>
+      <div className="mb-3">
+        <LaneSelect account={account} chainId={chainId} value={seqKey} onChange={setSeqKey} />
+      </div>
+
+      <label className="block text-sm">Expiry</label>
+      <div className="mb-3">
+        <ExpirySelect value={ttl} onChange={setTtl} />
+      </div>
+
+      <div className="mb-3">
+        <BatchEditor calls={calls} onChange={setCalls} chainId={chainId} />
       </div>
 
-      <button onClick={create} className="px-4 py-2 bg-white text-black">Create</button>
+      <button onClick={create} disabled={!!batchError(calls)} className="px-4 py-2 bg-white text-black disabled:opacity-50">Create</button>
 
       {intentId && (
         <div className="mt-6 space-y-2">
           <div>Intent ID: <code>{intentId}</code></div>
           <div>Digest: <code>{digest}</code></div>
+          <div>Nonce lane: <code>{lane}</code></div>
           <div className="text-xs text-gray-400">Share link for signers:</div>
           <code className="text-xs break-all">{location.origin}/intent/{intentId}</code>
         </div>
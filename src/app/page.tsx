@@ -6,6 +6,8 @@
  * 1. Setup: Configure external keys, passkeys, and multisig parameters
  * 2. Intent Creation: Create transaction intents for signing
  * 3. Intent Signing: Collect signatures from multiple passkeys
+ * 4. Intents: Browse open intents and pick one to sign
+ * 5. Inspect: Read a key's on-chain call and spend permissions
  * 
  * Key features:
  * - WebAuthn passkey creation and management
@@ -16,18 +18,31 @@
  * - Transaction submission when threshold is met
  */
 'use client';
-import { useAccount, useReadContract, useSendCalls, useCallsStatus, useConnector } from 'wagmi';
+import { useAccount, useChainId, useReadContract, useSendCalls, useCallsStatus, useConnector } from 'wagmi';
 import Connect from '@/components/Connect';
+import IntentList from '@/components/IntentList';
+import BatchEditor, { batchError } from '@/components/BatchEditor';
+import { DraftCall, emptyCall, toApiCall } from '@/components/CallComposer';
+import CallView, { CallForView } from '@/components/CallView';
+import GovernanceProposal from '@/components/GovernanceProposal';
+import ConfigDriftNotice from '@/components/ConfigDriftNotice';
+import PermissionEditor from '@/components/PermissionEditor';
+import KeyInspector from '@/components/KeyInspector';
+import LaneSelect from '@/components/LaneSelect';
+import ExpirySelect, { expiresAtFromTtl } from '@/components/ExpirySelect';
 import { abi as multiSigAbi } from '../../abis/MultisigSignerAbi.json';
 import { abi as  accountAbi } from '../../abis/IthacaAccount.json';
 import { useMemo, useState, useEffect } from 'react';
-import { encodeFunctionData, isHex, Hex, keccak256, encodeAbiParameters } from 'viem';
+import { Abi, encodeFunctionData, isHex, Hex, keccak256, encodeAbiParameters } from 'viem';
 import { encodeAuthorizeExternalExecute } from '@/lib/externalKey';
-import { encodeSetCanExecuteExecute, encodeSetSpendLimitExecute, ANY_TARGET, EMPTY_CALLDATA_FN_SEL } from '@/lib/permissions';
+import { encodePermissionChangeExecute, DEFAULT_POLICY, PermissionChange } from '@/lib/permissions';
 import { WebAuthnP256 } from 'ox';
 import Link from 'next/link';
-
-const MULTISIG_ADDRESS = process.env.NEXT_PUBLIC_MULTISIG_SIGNER as `0x${string}`;
+import { getChainConfig } from '@/lib/chains';
+import { AUTO_SEQ_KEY } from '@/lib/nonce';
+import { passkeyPublicKey, signProposal } from '@/lib/proposal';
+import { liveStatus, useIntentStream } from '@/lib/useIntentStream';
+import { describeApiError } from '@/lib/apiErrors';
 
 /**
  * Computes owner key hash from WebAuthn public key coordinates
@@ -75,10 +90,25 @@ function extractIntentId(input: string): string {
   return urlMatch ? urlMatch[1] : input.trim();
 }
 
+/**
+ * Call-bundle id from a sendCalls result
+ *
+ * @param result A bare id or `{ id }`, depending on the wallet
+ * @returns The id, or undefined
+ */
+function callsIdOf(result: unknown): string | undefined {
+  if (typeof result === 'string') return result;
+  if (result && typeof result === 'object' && 'id' in result && typeof result.id === 'string') return result.id;
+  return undefined;
+}
+
 type Owner = { keyHash: `0x${string}`; label?: string };
 
 export default function Home() {
   const { address, connector } = useAccount();
+  // Intents and setup target the wallet's current chain; undefined when that chain isn't in the registry
+  const chainId = useChainId();
+  const multisigAddress = getChainConfig(chainId)?.multisig as Hex;
   
   // Local state replacing Zustand store
   const [externalKeyHash, setExternalKeyHash] = useState<`0x${string}` | ''>('');
@@ -88,14 +118,16 @@ export default function Home() {
   const [newOwner, setNewOwner] = useState('');
   const [busy, setBusy] = useState(false);
   const [salt12, setSalt12] = useState<'0x' | `0x${string}`>('0x000000000000000000000000'); // 12-byte hex
-  const [activeTab, setActiveTab] = useState<'setup' | 'create' | 'sign'>('setup');
+  const [activeTab, setActiveTab] = useState<'setup' | 'create' | 'sign' | 'intents' | 'inspect'>('setup');
   
   // Intent creation state
   const [intentAccount, setIntentAccount] = useState<Hex>(address || '0x');
   const [intentExternalKeyHash, setIntentExternalKeyHash] = useState<Hex>('0x');
-  const [intentTo, setIntentTo] = useState<Hex>('0x');
-  const [intentAmount, setIntentAmount] = useState('0');
+  const [intentSeqKey, setIntentSeqKey] = useState<string>(AUTO_SEQ_KEY);
+  const [intentTtl, setIntentTtl] = useState(0);
+  const [intentCalls, setIntentCalls] = useState<DraftCall[]>(() => [emptyCall()]);
   const [intentDigest, setIntentDigest] = useState<Hex>();
+  const [intentLane, setIntentLane] = useState<string>();
   const [intentId, setIntentId] = useState<string>();
   
   // Intent signing state
@@ -114,6 +146,9 @@ export default function Home() {
     label: string;
   }>>([]);
 
+  // External key permissions (granted at setup, or changed later)
+  const [permissionChanges, setPermissionChanges] = useState<PermissionChange[]>(DEFAULT_POLICY);
+
   // EIP-5792 call id we get back after sendCalls
   const [callId, setCallId] = useState<string | null>(null);
 
@@ -197,8 +232,9 @@ export default function Home() {
 
   // Read on-chain config for the *connected account* + provided keyHash
   const { data: readData, refetch } = useReadContract({
-    address: MULTISIG_ADDRESS,
+    address: multisigAddress,
     abi: multiSigAbi,
+    chainId,
     functionName: 'getConfig',
     args: address && externalKeyHash ? [address, externalKeyHash as `0x${string}`] : undefined,
   });
@@ -214,17 +250,32 @@ export default function Home() {
     }
   }, [readData]);
 
+  // On-chain config in the shape the governance helpers use
+  const onChainConfig = useMemo(() => {
+    const [t, arr] = (readData as [bigint, Hex[]] | undefined) ?? [];
+    return arr ? { threshold: Number(t ?? 0), owners: arr } : undefined;
+  }, [readData]);
+
+  // Display names for owner key hashes (lowercase keys)
+  const ownerLabels = useMemo(() => {
+    const labels: Record<string, string> = {};
+    for (const o of owners) if (o.label) labels[o.keyHash.toLowerCase()] = o.label;
+    for (const p of allPasskeys) labels[p.ownerKeyHash.toLowerCase()] = p.label;
+    if (ownerKeyHash) labels[ownerKeyHash.toLowerCase()] = 'My Passkey';
+    return labels;
+  }, [owners, allPasskeys, ownerKeyHash]);
+
 
   // Submit a batch (single-call batch for now) via EIP-5792
   const submitCalls = async (datas: `0x${string}`[]) => {
     setBusy(true);
     try {
       const id = await sendCalls({
-        calls: datas.map((data) => ({ to: MULTISIG_ADDRESS, data })),
+        calls: datas.map((data) => ({ to: multisigAddress, data })),
         // capabilities: { /* add paymaster/funding options here later */ }
       });
       // id can be string or object depending on wallet – normalize:
-      const _id = typeof id === 'string' ? id : (id as any)?.id;
+      const _id = callsIdOf(id);
       setCallId(_id ?? null);
     } catch (e) {
       console.error(e);
@@ -270,7 +321,7 @@ export default function Home() {
         calls: [{ to: address, data: authorizeData }]
       });
 
-      const _id = typeof id === 'string' ? id : (id as any)?.id;
+      const _id = callsIdOf(id);
       setCallId(_id ?? null);
       
       
@@ -401,7 +452,7 @@ export default function Home() {
   // Batched setup: Authorize external key + set permissions in one transaction
   const onSetupExternalKeyBatched = async () => {
     if (!address) return alert('Connect first');
-    if (!MULTISIG_ADDRESS) return alert('Missing NEXT_PUBLIC_MULTISIG_SIGNER');
+    if (!multisigAddress) return alert(`No MultisigSigner configured for chain ${chainId}`);
     if (!isHex(salt12) || (salt12 as string).length !== 2 + 24) return alert('Salt must be 12 bytes hex');
 
     setBusy(true);
@@ -409,42 +460,29 @@ export default function Home() {
       // 1. Prepare external key authorization
       const { to: authTo, data: authData, externalKeyHash: computedHash } = encodeAuthorizeExternalExecute({
         account: address as Hex,
-        multisig: MULTISIG_ADDRESS,
+        multisig: multisigAddress,
         salt12: salt12 as Hex,
         accountAbi,
       });
 
-      // 2. Prepare empty calls permission
-      const { to: emptyTo, data: emptyData } = encodeSetCanExecuteExecute({
-        account: address as Hex,
-        keyHash: computedHash as Hex,
-        target: ANY_TARGET,
-        fnSel: EMPTY_CALLDATA_FN_SEL,
-        can: true,
-        accountAbi,
-      });
-
-      // 3. Prepare ETH spending permission
-      const limitWei = 1_000_000_000_000_000_000n; // 1 ETH
-      const { to: spendTo, data: spendData } = encodeSetSpendLimitExecute({
-        account: address as Hex,
-        keyHash: computedHash as Hex,
-        token: '0x0000000000000000000000000000000000000000',
-        period: 6, // Forever
-        limit: limitWei,
-        accountAbi,
-      });
+      // 2. Prepare the configured call and spend permissions
+      const permissionCalls = permissionChanges.map((change) =>
+        encodePermissionChangeExecute(change, {
+          account: address as Hex,
+          keyHash: computedHash as Hex,
+          accountAbi: accountAbi as Abi,
+        }),
+      );
 
-      // 4. Execute all three operations in a single batched transaction
+      // 3. Execute authorization + permissions in a single batched transaction
       const id = await sendCalls({
         calls: [
           { to: authTo, data: authData },
-          { to: emptyTo, data: emptyData },
-          { to: spendTo, data: spendData }
+          ...permissionCalls,
         ]
       });
 
-      const _id = typeof id === 'string' ? id : (id as any)?.id;
+      const _id = callsIdOf(id);
       setCallId(_id ?? null);
       
       // Update state after successful batch
@@ -530,11 +568,11 @@ export default function Home() {
               args: [mode, executionData]
             })
           },
-          { to: MULTISIG_ADDRESS, data: initConfigData }
+          { to: multisigAddress, data: initConfigData }
         ]
       });
 
-      const _id = typeof id === 'string' ? id : (id as any)?.id;
+      const _id = callsIdOf(id);
       setCallId(_id ?? null);
       
       await refetch();
@@ -553,42 +591,39 @@ export default function Home() {
    * Sends transaction details to the API to generate intent with digest
    */
   const createIntent = async () => {
-    if (!MULTISIG_ADDRESS) {
-      alert('NEXT_PUBLIC_MULTISIG_SIGNER not configured');
+    if (!multisigAddress) {
+      alert(`No MultisigSigner configured for chain ${chainId}`);
       return;
     }
     
     
-    const calls = [{ to: intentTo, value: intentAmount, data: '0x' as Hex }];
+    const calls = intentCalls.map(toApiCall);
     setBusy(true);
     try {
+      const proposal = await signProposal(intentAccount, chainId);
       const response = await fetch('/api/intents', {
         method: 'POST',
         body: JSON.stringify({
           account: intentAccount,
-          chainId: 84532,
+          chainId,
           externalKeyHash: intentExternalKeyHash,
-          seqKey: '0',
+          seqKey: intentSeqKey,
+          expiresAt: expiresAtFromTtl(intentTtl),
           calls,
-          multisigAddress: MULTISIG_ADDRESS,
+          multisigAddress,
+          proposal,
         }),
         headers: { 'content-type': 'application/json' },
       });
       
-      if (!response.ok) {
-        const text = await response.text();
-        console.error('API Error:', response.status, text);
-        alert(`API Error ${response.status}: ${text}`);
-        return;
-      }
-      
-      const res = await response.json();
+      const res = await response.json().catch(() => ({ error: `API Error ${response.status}` }));
       if (res.id) {
         setIntentId(res.id);
         setIntentDigest(res.digest);
+        setIntentLane(res.seqKey);
         setSignIntentId(res.id); // Auto-fill for signing tab
       } else {
-        alert(res.error || 'failed');
+        alert(describeApiError(res, 'failed'));
       }
     } catch (error) {
       console.error('Request failed:', error);
@@ -610,7 +645,7 @@ export default function Home() {
       if (!res.ok) throw new Error(`GET /api/intents/${id} failed`);
       const data = await res.json();
       setLoadedIntent(data);
-      setSignStatus(data.status || 'collecting');
+      setSignStatus(liveStatus(data));
     } catch {
       setLoadedIntent({ id, digest: undefined });
     } finally {
@@ -648,17 +683,17 @@ export default function Home() {
 
       const wrapped = await Key.sign(existingKey, {
         address: null,
-        payload: loadedIntent.digest as Hex,
+        payload: (loadedIntent.signingDigest ?? loadedIntent.digest) as Hex,
       });
 
       const res = await fetch(`/api/intents/${signIntentId}/sign`, {
         method: 'POST',
-        body: JSON.stringify({ wrappedSignature: wrapped }),
+        body: JSON.stringify({ wrappedSignature: wrapped, publicKey: passkeyPublicKey(passkey.credentialData.publicKey) }),
         headers: { 'content-type': 'application/json' },
       }).then((r) => r.json());
 
       if (!res.ok) {
-        alert(res.error || 'sign failed');
+        alert(describeApiError(res, 'sign failed'));
         return;
       }
 
@@ -706,17 +741,17 @@ export default function Home() {
 
       const wrapped = await Key.sign(existingKey, {
         address: null,
-        payload: loadedIntent.digest as Hex,
+        payload: (loadedIntent.signingDigest ?? loadedIntent.digest) as Hex,
       });
 
       const res = await fetch(`/api/intents/${signIntentId}/sign`, {
         method: 'POST',
-        body: JSON.stringify({ wrappedSignature: wrapped }),
+        body: JSON.stringify({ wrappedSignature: wrapped, publicKey: passkeyPublicKey(credentialData.publicKey) }),
         headers: { 'content-type': 'application/json' },
       }).then((r) => r.json());
 
       if (!res.ok) {
-        alert(res.error || 'sign failed');
+        alert(describeApiError(res, 'sign failed'));
         return;
       }
 
@@ -740,7 +775,7 @@ export default function Home() {
       if (res.ok) {
         setSignStatus(res.status || 'submitted');
       } else {
-        alert(res.error || 'submit failed');
+        alert(describeApiError(res, 'submit failed'));
       }
     } finally {
       setBusy(false);
@@ -778,6 +813,12 @@ export default function Home() {
     if (externalKeyHash) setIntentExternalKeyHash(externalKeyHash);
   }, [externalKeyHash]);
 
+  // Keep the loaded intent live while other owners sign and the relayer submits
+  useIntentStream(loadedIntent?.digest ? loadedIntent.id : undefined, (data) => {
+    setLoadedIntent(data);
+    setSignStatus(liveStatus(data));
+  });
+
   // Auto-load intent when signIntentId changes
   useEffect(() => {
     if (signIntentId && signIntentId !== loadedIntent?.id) {
@@ -794,11 +835,11 @@ export default function Home() {
 
   // Auto-compute external key hash when address or salt changes
   useEffect(() => {
-    if (address && MULTISIG_ADDRESS && salt12 && salt12 !== '0x' && salt12.length === 26) {
+    if (address && multisigAddress && salt12 && salt12 !== '0x' && salt12.length === 26) {
       try {
         const { externalKeyHash: computedHash } = encodeAuthorizeExternalExecute({
           account: address as Hex,
-          multisig: MULTISIG_ADDRESS,
+          multisig: multisigAddress,
           salt12: salt12 as Hex,
           accountAbi,
         });
@@ -807,7 +848,7 @@ export default function Home() {
         console.warn('Failed to compute external key hash:', error);
       }
     }
-  }, [address, salt12]);
+  }, [address, salt12, multisigAddress]);
 
   return (
     <main className="min-h-screen bg-black text-white font-mono">
@@ -838,11 +879,23 @@ export default function Home() {
               Create Intent
             </button>
             <button
-              className={`flex-1 py-2 px-4 text-sm font-medium ${activeTab === 'sign' ? 'bg-white text-black' : 'bg-gray-900 text-gray-300 hover:bg-gray-800'}`}
+              className={`flex-1 py-2 px-4 text-sm font-medium ${activeTab === 'sign' ? 'bg-white text-black' : 'bg-gray-900 text-gray-300 hover:bg-gray-800'} border-r border-gray-800`}
               onClick={() => setActiveTab('sign')}
             >
               Sign Intent
             </button>
+            <button
+              className={`flex-1 py-2 px-4 text-sm font-medium ${activeTab === 'intents' ? 'bg-white text-black' : 'bg-gray-900 text-gray-300 hover:bg-gray-800'} border-r border-gray-800`}
+              onClick={() => setActiveTab('intents')}
+            >
+              Intents
+            </button>
+            <button
+              className={`flex-1 py-2 px-4 text-sm font-medium ${activeTab === 'inspect' ? 'bg-white text-black' : 'bg-gray-900 text-gray-300 hover:bg-gray-800'}`}
+              onClick={() => setActiveTab('inspect')}
+            >
+              Inspect
+            </button>
           </div>
         </div>
 
@@ -887,6 +940,32 @@ export default function Home() {
           </div>
         </div>
 
+        {/* External Key Permissions */}
+        <PermissionEditor
+          changes={permissionChanges}
+          onChange={setPermissionChanges}
+          account={address}
+          keyHash={externalKeyHash || undefined}
+          multisig={multisigAddress}
+          chainId={chainId}
+          keyLive={configExists}
+          onSendCalls={async (calls) => {
+            try {
+              const id = await sendCalls({ calls });
+              const _id = callsIdOf(id);
+              setCallId(_id ?? null);
+            } catch (e) {
+              console.error('Permission update failed:', e);
+              alert('Permission update failed. See console for details.');
+            }
+          }}
+          onProposed={(id) => {
+            setIntentId(id);
+            setSignIntentId(id);
+            setActiveTab('sign');
+          }}
+        />
+
         {/* Connected Account Info */}
         <div className="border border-gray-800 p-4 mb-4">
           <div className="flex items-center justify-between mb-3">
@@ -1168,6 +1247,23 @@ export default function Home() {
             )}
           </div>
         )}
+
+        {/* Governance: owner/threshold changes once the multisig is live */}
+        {configExists && onChainConfig && address && externalKeyHash && (
+          <GovernanceProposal
+            account={address}
+            externalKeyHash={externalKeyHash}
+            multisig={multisigAddress}
+            chainId={chainId}
+            current={onChainConfig}
+            labels={ownerLabels}
+            onCreated={(id) => {
+              setIntentId(id);
+              setSignIntentId(id);
+              setActiveTab('sign');
+            }}
+          />
+        )}
         </div>
         </>
         )}
@@ -1199,34 +1295,28 @@ export default function Home() {
                   />
                 </div>
 
-                <div className="grid grid-cols-2 gap-2">
-                  <div>
-                    <label className="block text-sm mb-1">To</label>
-                    <input 
-                      className="w-full bg-black border border-gray-800 p-2 text-sm focus:border-gray-600 outline-none" 
-                      value={intentTo} 
-                      onChange={(e) => setIntentTo(e.target.value as Hex)} 
-                      placeholder="0x..."
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm mb-1">Amount (wei)</label>
-                    <input 
-                      className="w-full bg-black border border-gray-800 p-2 text-sm focus:border-gray-600 outline-none" 
-                      value={intentAmount} 
-                      onChange={(e) => setIntentAmount(e.target.value)} 
-                      placeholder="0"
-                    />
-                  </div>
+                <div>
+                  <label className="block text-sm mb-1">Nonce Lane</label>
+                  <LaneSelect account={intentAccount} chainId={chainId} value={intentSeqKey} onChange={setIntentSeqKey} />
                 </div>
 
+                <div>
+                  <label className="block text-sm mb-1">Expiry</label>
+                  <ExpirySelect value={intentTtl} onChange={setIntentTtl} />
+                </div>
+
+                <BatchEditor calls={intentCalls} onChange={setIntentCalls} chainId={chainId} />
+
                 <button 
                   onClick={createIntent} 
-                  disabled={busy || !intentAccount || !intentExternalKeyHash || !intentTo}
+                  disabled={busy || !intentAccount || !intentExternalKeyHash || !!batchError(intentCalls)}
                   className="w-full px-4 py-3 bg-blue-600 text-white font-bold hover:bg-blue-700 disabled:opacity-50"
                 >
                   {busy ? 'Creating...' : 'Create Intent'}
                 </button>
+                {batchError(intentCalls) && (
+                  <p className="text-xs text-gray-500">{batchError(intentCalls)}</p>
+                )}
               </div>
 
               {intentId && (
@@ -1235,6 +1325,7 @@ export default function Home() {
                   <div className="text-xs space-y-1">
                     <div>Intent ID: <code className="break-all">{intentId}</code></div>
                     <div>Digest: <code className="break-all">{intentDigest}</code></div>
+                    {intentLane !== undefined && <div>Nonce lane: <code>{intentLane}</code></div>}
                   </div>
                   <div className="flex gap-2 pt-2">
                     <button 
@@ -1300,7 +1391,30 @@ export default function Home() {
                         <div className="text-yellow-500">⚠ Digest not loaded</div>
                       )}
                       <div>Status: <span className={signStatus.includes('ready') ? 'text-green-500' : 'text-yellow-500'}>{signStatus}</span></div>
+                      {loadedIntent.threshold !== undefined && (
+                        <div>Signatures: {loadedIntent.signatures?.length ?? 0} of {loadedIntent.threshold}</div>
+                      )}
+                      {loadedIntent.configDrift && loadedIntent.status === 'collecting' && (
+                        <ConfigDriftNotice
+                          drift={loadedIntent.configDrift}
+                          threshold={loadedIntent.threshold}
+                          signed={loadedIntent.signatures?.length ?? 0}
+                        />
+                      )}
+                      {signStatus === 'submitted' && (
+                        <div className="text-gray-400">
+                          Sent. Follow confirmation on the{' '}
+                          <Link href={`/intent/${loadedIntent.id}`} className="underline">intent page</Link>.
+                        </div>
+                      )}
                     </div>
+                    {loadedIntent.calls?.length > 0 && (
+                      <div className="mt-2 space-y-2">
+                        {loadedIntent.calls.map((c: CallForView, i: number) => (
+                          <CallView key={i} call={c} index={i} />
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -1365,6 +1479,23 @@ export default function Home() {
             </div>
           </div>
         )}
+
+        {/* Intents Dashboard Tab */}
+        {activeTab === 'intents' && (
+          <IntentList
+            account={address}
+            signerKeyHashes={[...new Set([ownerKeyHash, ...allPasskeys.map((p) => p.ownerKeyHash)].filter(Boolean))]}
+            onSign={(id) => {
+              setSignIntentId(id);
+              setActiveTab('sign');
+            }}
+          />
+        )}
+
+        {/* Key Permission Inspector Tab */}
+        {activeTab === 'inspect' && (
+          <KeyInspector account={address} defaultKeyHash={externalKeyHash || undefined} />
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,109 @@
+'use client';
+import type { Dispatch, SetStateAction } from 'react';
+import { formatEther } from 'viem';
+import CallComposer, { DraftCall, emptyCall } from './CallComposer';
+
+/**
+ * Sums the wei values of a batch, ignoring entries that are not valid integers yet
+ */
+export function batchTotal(calls: DraftCall[]) {
+  return calls.reduce((sum, c) => {
+    try {
+      return sum + BigInt(c.value || '0');
+    } catch {
+      return sum;
+    }
+  }, BigInt(0));
+}
+
+/**
+ * Returns the first problem that should block creating the batch, if any
+ */
+export function batchError(calls: DraftCall[]) {
+  if (!calls.length) return 'Add at least one call';
+  for (const [i, c] of calls.entries()) {
+    if (!c.to || c.to === '0x') return `Call #${i + 1}: missing target`;
+    if (c.error) return `Call #${i + 1}: ${c.error}`;
+    if (!/^\d+$/.test(c.value || '0')) return `Call #${i + 1}: amount must be a whole number of wei`;
+  }
+  return undefined;
+}
+
+/**
+ * Editor for an ordered batch of calls that becomes a single intent (one digest)
+ *
+ * Edits are applied as functional updates so several composers re-encoding in the
+ * same render don't overwrite each other.
+ *
+ * @param calls The current batch
+ * @param onChange State setter for the batch
+ * @param chainId Chain the intent targets (for token metadata)
+ */
+export default function BatchEditor({
+  calls,
+  onChange,
+  chainId,
+}: {
+  calls: DraftCall[];
+  onChange: Dispatch<SetStateAction<DraftCall[]>>;
+  chainId: number;
+}) {
+  const update = (uid: string, c: DraftCall) => onChange((prev) => prev.map((x) => (x.uid === uid ? c : x)));
+  const remove = (uid: string) => onChange((prev) => prev.filter((x) => x.uid !== uid));
+  const move = (i: number, delta: number) =>
+    onChange((prev) => {
+      const j = i + delta;
+      if (j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+
+  return (
+    <div className="space-y-3">
+      {calls.map((c, i) => (
+        <div key={c.uid} className="border border-gray-800 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-bold">Call #{i + 1}</span>
+            <div className="flex gap-1 text-xs">
+              <button
+                className="px-2 py-1 border border-gray-800 hover:bg-gray-900 disabled:opacity-50"
+                disabled={i === 0}
+                onClick={() => move(i, -1)}
+              >
+                ↑
+              </button>
+              <button
+                className="px-2 py-1 border border-gray-800 hover:bg-gray-900 disabled:opacity-50"
+                disabled={i === calls.length - 1}
+                onClick={() => move(i, 1)}
+              >
+                ↓
+              </button>
+              <button
+                className="px-2 py-1 border border-gray-800 hover:bg-gray-900 disabled:opacity-50"
+                disabled={calls.length === 1}
+                onClick={() => remove(c.uid)}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+          <CallComposer call={c} onChange={(next) => update(c.uid, next)} chainId={chainId} />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          className="px-3 py-2 border border-gray-800 text-xs hover:bg-gray-900"
+          onClick={() => onChange((prev) => [...prev, emptyCall()])}
+        >
+          + Add Call
+        </button>
+        <span className="text-xs text-gray-400">
+          {calls.length} call{calls.length === 1 ? '' : 's'} · total {formatEther(batchTotal(calls))} ETH
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import { Abi, AbiFunction, Hex, isHex } from 'viem';
+import { abi as multiSigAbi } from '../../abis/MultisigSignerAbi.json';
+import { abi as accountAbi } from '../../abis/IthacaAccount.json';
+import { encodeCall, functionLabel, parseAbiInput, writableFunctions } from '@/lib/calldata';
+import Erc20Fields from './Erc20Fields';
+
+/**
+ * A call being edited in an intent form. `data` is always the encoded calldata;
+ * `abi` is the function fragment it was built from (sent to the API for checking and display).
+ */
+export type DraftCall = {
+  uid: string;                 // stable React key while calls are reordered
+  to: Hex;
+  value: string;               // wei
+  data: Hex;
+  abi?: AbiFunction;
+  error?: string;              // set while the inputs cannot be encoded
+};
+
+let nextUid = 0;
+export const emptyCall = (): DraftCall => ({ uid: `call-${nextUid++}`, to: '0x', value: '0', data: '0x' });
+
+/**
+ * Strips editor-only fields, leaving the call shape POST /api/intents expects
+ */
+export const toApiCall = ({ to, value, data, abi }: DraftCall) => ({ to, value, data, abi });
+
+const PRESETS: Record<string, Abi> = {
+  IthacaAccount: accountAbi as Abi,
+  MultisigSigner: multiSigAbi as Abi,
+};
+
+type Mode = 'transfer' | 'erc20' | 'abi' | 'raw';
+
+const inputClass = 'w-full bg-black border border-gray-800 p-2 text-sm focus:border-gray-600 outline-none';
+
+/**
+ * Editor for a single call: plain ETH transfer, ERC-20 template, ABI-driven function call, or raw calldata
+ *
+ * @param call The current draft
+ * @param onChange Receives the updated draft on every edit
+ * @param chainId Chain the intent targets (for token metadata)
+ */
+export default function CallComposer({
+  call,
+  onChange,
+  chainId,
+}: {
+  call: DraftCall;
+  onChange: (c: DraftCall) => void;
+  chainId: number;
+}) {
+  const [mode, setMode] = useState<Mode>(call.abi ? 'abi' : call.data !== '0x' ? 'raw' : 'transfer');
+  const [preset, setPreset] = useState('custom');
+  const [abiText, setAbiText] = useState('');
+  const [fnSig, setFnSig] = useState('');
+  const [args, setArgs] = useState<string[]>([]);
+
+  const { functions, abiError } = useMemo(() => {
+    try {
+      const abi = preset === 'custom' ? parseAbiInput(abiText) : PRESETS[preset];
+      return { functions: writableFunctions(abi), abiError: undefined };
+    } catch (e) {
+      return { functions: [] as AbiFunction[], abiError: e instanceof Error ? e.message : 'Invalid ABI' };
+    }
+  }, [preset, abiText]);
+
+  const fn = functions.find((f) => functionLabel(f) === fnSig);
+
+  // Re-encode whenever the ABI inputs change
+  useEffect(() => {
+    if (mode !== 'abi') return;
+    if (!fn) {
+      onChange({ ...call, data: '0x', abi: undefined, error: abiError ?? 'Choose a function' });
+      return;
+    }
+    try {
+      onChange({ ...call, data: encodeCall(fn, args), abi: fn, error: undefined });
+    } catch (e) {
+      onChange({ ...call, data: '0x', abi: fn, error: e instanceof Error ? e.message : 'Cannot encode arguments' });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mode, fn, args, abiError]);
+
+  const switchMode = (m: Mode) => {
+    setMode(m);
+    if (m === 'transfer') onChange({ ...call, data: '0x', abi: undefined, error: undefined });
+    if (m === 'raw') onChange({ ...call, abi: undefined, error: isHex(call.data) ? undefined : 'Calldata must be hex' });
+  };
+
+  return (
+    <div className="space-y-3">
+      {mode !== 'erc20' && (
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm mb-1">To</label>
+          <input
+            className={inputClass}
+            value={call.to}
+            onChange={(e) => onChange({ ...call, to: e.target.value as Hex })}
+            placeholder="0x..."
+          />
+        </div>
+        <div>
+          <label className="block text-sm mb-1">Amount (wei)</label>
+          <input
+            className={inputClass}
+            value={call.value}
+            onChange={(e) => onChange({ ...call, value: e.target.value })}
+            placeholder="0"
+          />
+        </div>
+      </div>
+      )}
+
+      <div className="flex gap-0 border border-gray-800 text-xs">
+        {(['transfer', 'erc20', 'abi', 'raw'] as Mode[]).map((m) => (
+          <button
+            key={m}
+            className={`flex-1 py-1 ${mode === m ? 'bg-white text-black' : 'bg-gray-900 text-gray-300 hover:bg-gray-800'}`}
+            onClick={() => switchMode(m)}
+          >
+            {{ transfer: 'ETH only', erc20: 'ERC-20', abi: 'Contract call (ABI)', raw: 'Raw calldata' }[m]}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'erc20' && <Erc20Fields call={call} onChange={onChange} chainId={chainId} />}
+
+      {mode === 'abi' && (
+        <div className="space-y-2">
+          <select className={inputClass} value={preset} onChange={(e) => { setPreset(e.target.value); setFnSig(''); }}>
+            <option value="custom">Paste ABI…</option>
+            {Object.keys(PRESETS).map((p) => (
+              <option key={p} value={p}>{p}</option>
+            ))}
+          </select>
+          {preset === 'custom' && (
+            <textarea
+              className={`${inputClass} h-24 text-xs`}
+              value={abiText}
+              onChange={(e) => { setAbiText(e.target.value); setFnSig(''); }}
+              placeholder='[{"type":"function",...}] or one signature per line, e.g. transfer(address to, uint256 amount)'
+            />
+          )}
+          {abiError && <p className="text-xs text-red-500">{abiError}</p>}
+          <select
+            className={inputClass}
+            value={fnSig}
+            onChange={(e) => {
+              setFnSig(e.target.value);
+              setArgs([]);
+            }}
+            disabled={!functions.length}
+          >
+            <option value="">{functions.length ? 'Choose function…' : 'No writable functions'}</option>
+            {functions.map((f) => (
+              <option key={functionLabel(f)} value={functionLabel(f)}>{functionLabel(f)}</option>
+            ))}
+          </select>
+          {fn?.inputs.map((p, i) => (
+            <div key={i}>
+              <label className="block text-xs text-gray-400 mb-1">
+                {p.name || `arg${i}`} <span className="text-gray-600">({p.type})</span>
+              </label>
+              <input
+                className={inputClass}
+                value={args[i] ?? ''}
+                onChange={(e) => {
+                  const next = [...args];
+                  next[i] = e.target.value;
+                  setArgs(next);
+                }}
+                placeholder={p.type.endsWith(']') || p.type === 'tuple' ? 'JSON' : p.type}
+              />
+            </div>
+          ))}
+          {fn && !call.error && <p className="text-xs text-gray-500 break-all">Calldata: <code>{call.data}</code></p>}
+        </div>
+      )}
+
+      {mode === 'raw' && (
+        <textarea
+          className={`${inputClass} h-20 text-xs`}
+          value={call.data}
+          onChange={(e) => {
+            const data = e.target.value.trim() as Hex;
+            onChange({ ...call, data, abi: undefined, error: isHex(data) ? undefined : 'Calldata must be 0x-prefixed hex' });
+          }}
+          placeholder="0x..."
+        />
+      )}
+
+      {call.error && <p className="text-xs text-yellow-500">{call.error}</p>}
+    </div>
+  );
+}
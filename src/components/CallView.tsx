@@ -0,0 +1,51 @@
+'use client';
+import { AbiFunction, Hex, formatEther } from 'viem';
+import { decodeCall, formatArg } from '@/lib/calldata';
+import { TokenMeta, describeErc20Call } from '@/lib/erc20';
+
+export type CallForView = { to: Hex; value: string; data: Hex; abi?: AbiFunction; token?: TokenMeta };
+
+/**
+ * Read-only rendering of one intent call, decoded when an ABI fragment is attached
+ *
+ * @param call The call as returned by GET /api/intents/[id]
+ * @param index Position in the batch (0-based)
+ */
+export default function CallView({ call, index }: { call: CallForView; index: number }) {
+  let decoded: ReturnType<typeof decodeCall> | undefined;
+  if (call.abi && call.data !== '0x') {
+    try {
+      decoded = decodeCall(call.abi, call.data);
+    } catch {
+      decoded = undefined;
+    }
+  }
+
+  const summary = call.token ? describeErc20Call(call.data, call.token) : undefined;
+
+  return (
+    <div className="p-2 border border-gray-800 text-xs space-y-1">
+      <div className="flex gap-2">
+        <span className="text-gray-500">#{index + 1}</span>
+        <span className="flex-1 break-all">to <code>{call.to}</code>{call.token && <> ({call.token.symbol})</>}</span>
+      </div>
+      {summary && <div className="text-green-400 font-bold">{summary}</div>}
+      <div>Value: {formatEther(BigInt(call.value))} ETH <span className="text-gray-500">({call.value} wei)</span></div>
+      {decoded && call.abi ? (
+        <div>
+          <div>Function: <code>{decoded.functionName}</code></div>
+          {call.abi.inputs.map((p, i) => (
+            <div key={i} className="pl-4 break-all">
+              <span className="text-gray-400">{p.name || `arg${i}`}</span>{' '}
+              <span className="text-gray-600">({p.type})</span>: <code>{formatArg(decoded.args[i])}</code>
+            </div>
+          ))}
+        </div>
+      ) : call.data === '0x' ? (
+        <div className="text-gray-500">No calldata (plain transfer)</div>
+      ) : (
+        <div className="break-all">Calldata: <code>{call.data}</code></div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+import type { Hex } from 'viem';
+import { MultisigConfig, diffConfig } from '@/lib/governance';
+
+/**
+ * Before/after view of a multisig owner + threshold change
+ *
+ * @param before Config before the change
+ * @param after Config after the change
+ * @param labels Optional display names by owner keyHash (lowercase)
+ */
+export default function ConfigDiff({
+  before,
+  after,
+  labels = {},
+}: {
+  before: MultisigConfig;
+  after: MultisigConfig;
+  labels?: Record<string, string>;
+}) {
+  const diff = diffConfig(before, after);
+  const label = (kh: Hex) => labels[kh.toLowerCase()];
+  const row = (kh: Hex, mark: string, cls: string) => (
+    <div key={`${mark}${kh}`} className={`flex gap-2 ${cls}`}>
+      <span className="w-3">{mark}</span>
+      <code className="flex-1 break-all">{kh}</code>
+      {label(kh) && <span className="text-gray-500">({label(kh)})</span>}
+    </div>
+  );
+
+  const thresholdChanged = diff.threshold.before !== diff.threshold.after;
+
+  return (
+    <div className="text-xs space-y-2">
+      <div>
+        Threshold:{' '}
+        {thresholdChanged ? (
+          <>
+            <span className="text-red-400 line-through">{diff.threshold.before}</span>
+            {' → '}
+            <span className="text-green-400">{diff.threshold.after}</span>
+          </>
+        ) : (
+          <span>{diff.threshold.after} (unchanged)</span>
+        )}
+        <span className="text-gray-500"> of {after.owners.length} owners (was {before.owners.length})</span>
+      </div>
+      <div className="space-y-1">
+        {diff.added.map((kh) => row(kh, '+', 'text-green-400'))}
+        {diff.removed.map((kh) => row(kh, '−', 'text-red-400 line-through'))}
+        {diff.kept.map((kh) => row(kh, ' ', 'text-gray-400'))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+import type { Hex } from 'viem';
+
+type ConfigDrift = {
+  removedOwners: Hex[];
+  thresholdBefore: number;
+  droppedSignatures: Hex[];
+  at: number;
+};
+
+/**
+ * Why a collecting intent lost signatures or needs more after an on-chain config change
+ *
+ * @param drift The intent's configDrift (see src/app/api/_lib/config.ts)
+ * @param threshold The intent's current threshold
+ * @param signed Signatures currently counted
+ */
+export default function ConfigDriftNotice({
+  drift,
+  threshold,
+  signed,
+}: {
+  drift: ConfigDrift;
+  threshold: number;
+  signed: number;
+}) {
+  const missing = threshold - signed;
+  return (
+    <div className="p-2 mb-2 border border-yellow-900 text-xs text-yellow-500 space-y-1">
+      <div>The multisig config changed on-chain after this intent was proposed ({new Date(drift.at).toLocaleString()}):</div>
+      <ul className="list-disc list-inside">
+        {drift.removedOwners.length > 0 && (
+          <li>
+            {drift.removedOwners.length} owner{drift.removedOwners.length > 1 ? 's' : ''} removed
+            {drift.droppedSignatures.length > 0 &&
+              `; their ${drift.droppedSignatures.length} signature${drift.droppedSignatures.length > 1 ? 's were' : ' was'} dropped`}
+          </li>
+        )}
+        {threshold > drift.thresholdBefore && (
+          <li>
+            threshold raised from {drift.thresholdBefore} to {threshold}
+          </li>
+        )}
+      </ul>
+      {missing > 0 ? (
+        <div>
+          It needs {missing} more signature{missing > 1 ? 's' : ''} from current owners before it can be submitted.
+        </div>
+      ) : (
+        <div>It still has enough signatures from current owners.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { Hex, isAddress } from 'viem';
+import { ERC20_TEMPLATES, Erc20Template, TokenMeta, buildErc20Call, describeErc20Call } from '@/lib/erc20';
+import type { DraftCall } from './CallComposer';
+import { describeApiError } from '@/lib/apiErrors';
+
+const inputClass = 'w-full bg-black border border-gray-800 p-2 text-sm focus:border-gray-600 outline-none';
+
+/**
+ * ERC-20 transfer / approve / transferFrom template with amounts in whole-token units
+ *
+ * The call's `to` is the token contract; its metadata comes from GET /api/tokens/[address].
+ *
+ * @param call The current draft
+ * @param onChange Receives the updated draft on every edit
+ * @param chainId Chain the token lives on
+ */
+export default function Erc20Fields({
+  call,
+  onChange,
+  chainId,
+}: {
+  call: DraftCall;
+  onChange: (c: DraftCall) => void;
+  chainId: number;
+}) {
+  const [template, setTemplate] = useState<Erc20Template>('transfer');
+  const [token, setToken] = useState<string>(call.to !== '0x' ? call.to : '');
+  const [meta, setMeta] = useState<TokenMeta>();
+  const [metaError, setMetaError] = useState<string>();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [spender, setSpender] = useState('');
+  const [amount, setAmount] = useState('');
+
+  // Load symbol/decimals whenever the token address becomes valid
+  useEffect(() => {
+    setMeta(undefined);
+    setMetaError(undefined);
+    if (!isAddress(token)) return;
+    let cancelled = false;
+    fetch(`/api/tokens/${token}?chainId=${chainId}`)
+      .then((r) => r.json())
+      .then((res) => {
+        if (cancelled) return;
+        if (res.error) setMetaError(describeApiError(res));
+        else setMeta({ symbol: res.symbol, decimals: res.decimals });
+      })
+      .catch(() => !cancelled && setMetaError('Failed to load token metadata'));
+    return () => {
+      cancelled = true;
+    };
+  }, [token, chainId]);
+
+  // Rebuild the call from the template inputs
+  useEffect(() => {
+    const base = { ...call, to: (token || '0x') as Hex, value: '0' };
+    const error = (() => {
+      if (!isAddress(token)) return 'Enter a token address';
+      if (!meta) return metaError ?? 'Loading token metadata…';
+      if (template !== 'approve' && !isAddress(to)) return 'Invalid recipient address';
+      if (template === 'approve' && !isAddress(spender)) return 'Invalid spender address';
+      if (template === 'transferFrom' && !isAddress(from)) return 'Invalid from address';
+      if (!/^\d+(\.\d+)?$/.test(amount)) return 'Enter an amount, e.g. 1250.50';
+      return undefined;
+    })();
+    if (error || !meta) {
+      onChange({ ...base, data: '0x', abi: undefined, error });
+      return;
+    }
+    try {
+      const built = buildErc20Call(template, token as Hex, meta, {
+        to: to as Hex,
+        spender: spender as Hex,
+        from: from as Hex,
+        amount,
+      });
+      onChange({ ...base, data: built.data, abi: built.abi, error: undefined });
+    } catch (e) {
+      onChange({ ...base, data: '0x', abi: undefined, error: e instanceof Error ? e.message : 'Invalid amount' });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [template, token, meta, metaError, from, to, spender, amount]);
+
+  const preview = meta && call.data !== '0x' ? describeErc20Call(call.data, meta) : undefined;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <select className={inputClass} value={template} onChange={(e) => setTemplate(e.target.value as Erc20Template)}>
+          {ERC20_TEMPLATES.map((t) => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+        <input className={inputClass} value={token} onChange={(e) => setToken(e.target.value)} placeholder="Token 0x..." />
+      </div>
+      {meta && <p className="text-xs text-gray-500">{meta.symbol} · {meta.decimals} decimals</p>}
+      {template === 'transferFrom' && (
+        <input className={inputClass} value={from} onChange={(e) => setFrom(e.target.value)} placeholder="From 0x..." />
+      )}
+      {template === 'approve' ? (
+        <input className={inputClass} value={spender} onChange={(e) => setSpender(e.target.value)} placeholder="Spender 0x..." />
+      ) : (
+        <input className={inputClass} value={to} onChange={(e) => setTo(e.target.value)} placeholder="Recipient 0x..." />
+      )}
+      <input
+        className={inputClass}
+        value={amount}
+        onChange={(e) => setAmount(e.target.value.replace(/,/g, ''))}
+        placeholder={`Amount${meta ? ` in ${meta.symbol}` : ''}, e.g. 1250.50`}
+      />
+      {preview && <p className="text-xs text-green-500">Will {preview}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+import { useEffect, useState } from 'react';
+import type { Hex } from 'viem';
+import { getChainConfig } from '@/lib/chains';
+
+type IntentEvent = { type: string; at: number; actor?: string; detail?: string; txHash?: Hex };
+
+const LABELS: Record<string, string> = {
+  created: 'Created',
+  signature_accepted: 'Signature accepted',
+  signature_rejected: 'Signature rejected',
+  simulated: 'Simulated',
+  submit_rejected: 'Submit rejected',
+  submitted: 'Submitted',
+  replaced: 'Replaced',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  reopened: 'Reopened',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+  stale: 'Stale',
+  rebased: 'Rebased',
+  config_changed: 'Config changed',
+};
+
+const COLORS: Record<string, string> = {
+  signature_accepted: 'text-green-500',
+  confirmed: 'text-green-500',
+  signature_rejected: 'text-red-500',
+  submit_rejected: 'text-red-500',
+  failed: 'text-red-500',
+  cancelled: 'text-gray-500',
+  expired: 'text-gray-500',
+  stale: 'text-yellow-500',
+  config_changed: 'text-yellow-500',
+};
+
+const short = (s: string) => (s.length > 14 ? `${s.slice(0, 8)}…${s.slice(-4)}` : s);
+
+/**
+ * Audit log of an intent from GET /api/intents/[id]/events, oldest first
+ *
+ * @param intentId The intent
+ * @param chainId Chain of the intent (for explorer links)
+ * @param refreshKey Refetches whenever this changes (the page bumps it after each reload)
+ */
+export default function EventTimeline({
+  intentId,
+  chainId,
+  refreshKey,
+}: {
+  intentId: string;
+  chainId?: number;
+  refreshKey?: unknown;
+}) {
+  const [events, setEvents] = useState<IntentEvent[]>([]);
+  const explorer = chainId ? getChainConfig(chainId)?.chain.blockExplorers?.default.url : undefined;
+
+  useEffect(() => {
+    fetch(`/api/intents/${intentId}/events`)
+      .then((r) => r.json())
+      .then((res) => setEvents(res.events ?? []))
+      .catch(() => {});
+  }, [intentId, refreshKey]);
+
+  if (!events.length) return null;
+
+  return (
+    <div className="mt-4 p-3 border border-gray-800 text-xs">
+      <h2 className="font-bold text-sm mb-2">Timeline</h2>
+      <ol className="space-y-1 border-l border-gray-800 pl-3">
+        {events.map((e, i) => (
+          <li key={i} className="break-all">
+            <span className="text-gray-500">{new Date(e.at).toLocaleString()}</span>{' '}
+            <span className={COLORS[e.type] ?? 'text-gray-200'}>{LABELS[e.type] ?? e.type}</span>
+            {e.actor && <span className="text-gray-500"> · by <code title={e.actor}>{short(e.actor)}</code></span>}
+            {e.detail && <span className="text-gray-400"> · {e.detail}</span>}
+            {e.txHash && (
+              <span className="text-gray-500">
+                {' · '}
+                {explorer ? (
+                  <a className="underline" href={`${explorer}/tx/${e.txHash}`} target="_blank" rel="noreferrer">
+                    {short(e.txHash)}
+                  </a>
+                ) : (
+                  <code title={e.txHash}>{short(e.txHash)}</code>
+                )}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+const OPTIONS: { label: string; seconds: number }[] = [
+  { label: 'Never expires', seconds: 0 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+  { label: '30 days', seconds: 30 * 24 * 60 * 60 },
+];
+
+/**
+ * Converts a selected time-to-live into the `expiresAt` sent to POST /api/intents
+ *
+ * @param ttlSeconds Seconds from now, 0 for no expiry
+ * @returns ms timestamp, or undefined for no expiry
+ */
+export const expiresAtFromTtl = (ttlSeconds: number) => (ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : undefined);
+
+/**
+ * Time-to-live picker for a new intent; expired intents can no longer be signed or submitted
+ *
+ * @param value Selected TTL in seconds (0 = never)
+ * @param onChange Receives the new TTL
+ */
+export default function ExpirySelect({ value, onChange }: { value: number; onChange: (ttlSeconds: number) => void }) {
+  return (
+    <select
+      className="w-full bg-black border border-gray-800 p-2 text-sm focus:border-gray-600 outline-none"
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+    >
+      {OPTIONS.map((o) => (
+        <option key={o.seconds} value={o.seconds}>{o.label}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import { Hex, isHex } from 'viem';
+import ConfigDiff from './ConfigDiff';
+import { MultisigConfig, applyGovernanceCalls, buildGovernanceCalls } from '@/lib/governance';
+import { AUTO_SEQ_KEY } from '@/lib/nonce';
+import { signProposal } from '@/lib/proposal';
+import { describeApiError } from '@/lib/apiErrors';
+
+/**
+ * Proposes owner/threshold changes to an initialized multisig as an intent
+ *
+ * The change is signed by the current quorum like any other intent. The external key
+ * must be allowed to call addOwner/removeOwner/setThreshold on the MultisigSigner.
+ *
+ * @param account The Porto account that owns the multisig config
+ * @param externalKeyHash The multisig policy keyHash
+ * @param multisig MultisigSigner address
+ * @param chainId Chain the intent is created on
+ * @param current The on-chain config
+ * @param labels Display names by owner keyHash (lowercase)
+ * @param onCreated Called with the new intent id
+ */
+export default function GovernanceProposal({
+  account,
+  externalKeyHash,
+  multisig,
+  chainId,
+  current,
+  labels,
+  onCreated,
+}: {
+  account: Hex;
+  externalKeyHash: Hex;
+  multisig: Hex;
+  chainId: number;
+  current: MultisigConfig;
+  labels: Record<string, string>;
+  onCreated: (id: string) => void;
+}) {
+  const [owners, setOwners] = useState<Hex[]>(current.owners);
+  const [threshold, setThreshold] = useState(current.threshold);
+  const [newOwner, setNewOwner] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // Reset the draft when the on-chain config changes
+  const currentKey = `${current.threshold}:${current.owners.join(',')}`;
+  useEffect(() => {
+    setOwners(current.owners);
+    setThreshold(current.threshold);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentKey]);
+
+  const next = { threshold, owners };
+  const calls = useMemo(
+    () => buildGovernanceCalls(multisig, externalKeyHash, current, { threshold, owners }),
+    [multisig, externalKeyHash, current, threshold, owners],
+  );
+  const check = applyGovernanceCalls(multisig, externalKeyHash, current, calls);
+
+  const propose = async () => {
+    setBusy(true);
+    try {
+      const proposal = await signProposal(account, chainId);
+      const res = await fetch('/api/intents', {
+        method: 'POST',
+        body: JSON.stringify({
+          account,
+          chainId,
+          externalKeyHash,
+          seqKey: AUTO_SEQ_KEY,
+          calls,
+          multisigAddress: multisig,
+          proposal,
+        }),
+        headers: { 'content-type': 'application/json' },
+      }).then((r) => r.json());
+      if (res.id) onCreated(res.id);
+      else alert(describeApiError(res, 'failed'));
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-800 p-4">
+      <h2 className="font-bold mb-1">Propose Config Change</h2>
+      <p className="text-xs text-gray-500 mb-3">
+        Owner and threshold changes are executed as a multisig intent and need the current quorum ({current.threshold} of{' '}
+        {current.owners.length}).
+      </p>
+
+      <div className="space-y-1 mb-3">
+        {owners.map((kh) => (
+          <div key={kh} className="flex items-center gap-2 p-2 border border-gray-800 text-xs">
+            <code className="flex-1 break-all">{kh}</code>
+            {labels[kh.toLowerCase()] && <span className="text-gray-500">({labels[kh.toLowerCase()]})</span>}
+            <button
+              className="px-2 py-1 border border-gray-800 hover:bg-gray-900"
+              onClick={() => setOwners(owners.filter((o) => o !== kh))}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          className="flex-1 bg-black border border-gray-800 p-2 text-sm focus:border-gray-600 outline-none"
+          placeholder="0x... (owner key hash to add)"
+          value={newOwner}
+          onChange={(e) => setNewOwner(e.target.value)}
+        />
+        <button
+          className="px-3 py-2 border border-gray-800 text-xs hover:bg-gray-900 disabled:opacity-50"
+          disabled={!isHex(newOwner) || newOwner.length !== 66 || owners.some((o) => o.toLowerCase() === newOwner.toLowerCase())}
+          onClick={() => {
+            setOwners([...owners, newOwner as Hex]);
+            setNewOwner('');
+          }}
+        >
+          Add Owner
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-3">
+        <input
+          type="number"
+          min={1}
+          max={owners.length || 1}
+          className="w-16 bg-black border border-gray-800 p-2 text-center text-sm focus:border-gray-600 outline-none"
+          value={threshold}
+          onChange={(e) => setThreshold(parseInt(e.target.value || '1', 10))}
+        />
+        <span className="text-xs text-gray-500">of {owners.length} owners required to sign</span>
+      </div>
+
+      {calls.length > 0 && (
+        <div className="border border-gray-800 p-3 mb-3">
+          <h3 className="font-bold text-sm mb-2">Before → After</h3>
+          <ConfigDiff before={current} after={next} labels={labels} />
+          <p className="text-xs text-gray-500 mt-2">{calls.length} call(s) will be proposed.</p>
+        </div>
+      )}
+
+      {check.error && <p className="text-xs text-red-500 mb-2">{check.error}</p>}
+
+      <button
+        className="w-full px-4 py-3 bg-blue-600 text-white font-bold hover:bg-blue-700 disabled:opacity-50"
+        disabled={busy || calls.length === 0 || !!check.error}
+        onClick={propose}
+      >
+        {busy ? 'Proposing...' : 'Propose Change as Intent'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { Hex } from 'viem';
+import { splitNonce } from '@/lib/nonce';
+import { describeApiError } from '@/lib/apiErrors';
+
+type ListedIntent = {
+  id: string;
+  account: Hex;
+  digest: Hex;
+  status: string;
+  threshold: number;
+  owners: Hex[];
+  signatures: { ownerKeyHash: Hex }[];
+  configDrift?: { removedOwners: Hex[]; thresholdBefore: number };
+  seqKey: string;
+  nonce: string;
+  createdAt: number;
+};
+
+/**
+ * Dashboard listing of intents from GET /api/intents
+ *
+ * @param account Default account filter (usually the connected account)
+ * @param signerKeyHashes Owner key hashes available locally, used for "awaiting my signature"
+ * @param onSign Called with an intent id when the user picks one to sign
+ */
+export default function IntentList({
+  account,
+  signerKeyHashes,
+  onSign,
+}: {
+  account?: Hex;
+  signerKeyHashes: string[];
+  onSign: (id: string) => void;
+}) {
+  const [accountFilter, setAccountFilter] = useState<string>(account ?? '');
+  const [status, setStatus] = useState('collecting');
+  const [awaitingSigner, setAwaitingSigner] = useState('');
+  const [sort, setSort] = useState<'createdAt' | 'nonce'>('createdAt');
+  const [intents, setIntents] = useState<ListedIntent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    if (account) setAccountFilter(account);
+  }, [account]);
+
+  const load = useCallback(async (cursor?: string) => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      const params = new URLSearchParams({ sort, order: sort === 'nonce' ? 'asc' : 'desc' });
+      if (accountFilter) params.set('account', accountFilter);
+      if (status) params.set('status', status);
+      if (awaitingSigner) params.set('awaitingSigner', awaitingSigner);
+      if (cursor) params.set('cursor', cursor);
+
+      const res = await fetch(`/api/intents?${params}`).then((r) => r.json());
+      if (res.error) {
+        setError(describeApiError(res));
+        return;
+      }
+      setIntents((prev) => (cursor ? [...prev, ...res.intents] : res.intents));
+      setNextCursor(res.nextCursor);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load intents');
+    } finally {
+      setLoading(false);
+    }
+  }, [accountFilter, status, awaitingSigner, sort]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="border border-gray-800 p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-bold">Intents</h2>
+        <button
+          className="px-3 py-1 border border-gray-800 text-xs hover:bg-gray-900 disabled:opacity-50"
+          disabled={loading}
+          onClick={() => load()}
+        >
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4 text-xs">
+        <input
+          className="col-span-2 bg-black border border-gray-800 p-2 focus:border-gray-600 outline-none"
+          placeholder="Account 0x... (empty = all)"
+          value={accountFilter}
+          onChange={(e) => setAccountFilter(e.target.value)}
+        />
+        <select
+          className="bg-black border border-gray-800 p-2"
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+        >
+          <option value="collecting">Open (collecting)</option>
+          <option value="submitting,submitted">Submitted</option>
+          <option value="confirmed,failed">Finished</option>
+          <option value="stale">Stale (needs rebase)</option>
+          <option value="cancelled,expired">Cancelled / expired</option>
+          <option value="">Any status</option>
+        </select>
+        <select
+          className="bg-black border border-gray-800 p-2"
+          value={sort}
+          onChange={(e) => setSort(e.target.value as 'createdAt' | 'nonce')}
+        >
+          <option value="createdAt">Newest first</option>
+          <option value="nonce">By nonce</option>
+        </select>
+        <select
+          className="col-span-2 bg-black border border-gray-800 p-2"
+          value={awaitingSigner}
+          onChange={(e) => setAwaitingSigner(e.target.value)}
+        >
+          <option value="">All signers</option>
+          {signerKeyHashes.map((kh) => (
+            <option key={kh} value={kh}>
+              Awaiting signature from {kh.slice(0, 10)}...{kh.slice(-6)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+      {intents.length === 0 && !loading ? (
+        <p className="text-xs text-gray-500">No intents match these filters.</p>
+      ) : (
+        <div className="space-y-2">
+          {intents.map((i) => (
+            <div key={i.id} className="flex items-center gap-2 p-2 border border-gray-800 text-xs">
+              <div className="flex-1 min-w-0">
+                <Link href={`/intent/${i.id}`} className="underline break-all">{i.id}</Link>
+                <div className="text-gray-500">
+                  lane {i.seqKey} · nonce #{splitNonce(i.nonce).sequence.toString()} · {i.createdAt ? new Date(i.createdAt).toLocaleString() : 'unknown date'}
+                </div>
+              </div>
+              <span
+                className={
+                  i.status === 'confirmed'
+                    ? 'text-green-500'
+                    : i.status === 'failed'
+                      ? 'text-red-500'
+                      : i.status === 'cancelled' || i.status === 'expired'
+                        ? 'text-gray-500'
+                        : i.status === 'stale'
+                          ? 'text-orange-500'
+                        : 'text-yellow-500'
+                }
+              >
+                {i.status}
+              </span>
+              <span className="text-gray-400">{i.signatures.length}/{i.threshold}</span>
+              {i.configDrift && i.status === 'collecting' && (
+                <span className="text-yellow-500" title="Owners were removed or the threshold raised after this intent was proposed">
+                  config changed
+                </span>
+              )}
+              {i.status === 'collecting' && (
+                <button
+                  className="px-2 py-1 bg-blue-600 text-white hover:bg-blue-700"
+                  onClick={() => onSign(i.id)}
+                >
+                  Sign
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {nextCursor && (
+        <button
+          className="w-full mt-3 px-3 py-2 border border-gray-800 text-xs hover:bg-gray-900 disabled:opacity-50"
+          disabled={loading}
+          onClick={() => load(nextCursor)}
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { useReadContract, useReadContracts } from 'wagmi';
+import { Hex, isHex } from 'viem';
+import { accountAbi } from '@/lib/abi/account';
+import { computeKeyHash } from '@/lib/externalKey';
+import {
+  SPEND_PERIODS,
+  decodePackedCanExecute,
+  describeSelector,
+  describeTarget,
+  describeToken,
+} from '@/lib/permissions';
+
+const KEY_TYPES = ['P256', 'WebAuthnP256', 'Secp256k1', 'External'];
+
+type Key = { expiry: number; keyType: number; isSuperAdmin: boolean; publicKey: Hex };
+
+const formatTime = (ts: bigint) => (ts === BigInt(0) ? '—' : new Date(Number(ts) * 1000).toLocaleString());
+
+/**
+ * Read-only view of a key's on-chain permissions on an IthacaAccount
+ *
+ * Lists the account's keys (keyCount/keyAt) and, for the selected keyHash, shows getKey,
+ * the unpacked canExecute (target, selector) pairs, call checkers and per-token spend limits.
+ *
+ * @param account The IthacaAccount to inspect
+ * @param defaultKeyHash Key hash selected initially (usually the multisig external key)
+ */
+export default function KeyInspector({ account, defaultKeyHash }: { account?: Hex; defaultKeyHash?: Hex }) {
+  const [keyHash, setKeyHash] = useState<string>(defaultKeyHash ?? '');
+
+  useEffect(() => {
+    if (defaultKeyHash) setKeyHash(defaultKeyHash);
+  }, [defaultKeyHash]);
+
+  const validKeyHash = isHex(keyHash) && keyHash.length === 66 ? (keyHash as Hex) : undefined;
+
+  // All keys on the account
+  const { data: keyCount } = useReadContract({
+    address: account,
+    abi: accountAbi,
+    functionName: 'keyCount',
+    query: { enabled: !!account },
+  });
+  const { data: keys, refetch: refetchKeys } = useReadContracts({
+    contracts: Array.from({ length: Number(keyCount ?? 0) }, (_, i) => ({
+      address: account,
+      abi: accountAbi,
+      functionName: 'keyAt',
+      args: [BigInt(i)],
+    } as const)),
+    query: { enabled: !!account && keyCount !== undefined },
+  });
+
+  // Permissions of the selected key
+  const { data: info, refetch, isFetching } = useReadContracts({
+    contracts: validKeyHash
+      ? ([
+          { address: account, abi: accountAbi, functionName: 'getKey', args: [validKeyHash] },
+          { address: account, abi: accountAbi, functionName: 'canExecutePackedInfos', args: [validKeyHash] },
+          { address: account, abi: accountAbi, functionName: 'spendInfos', args: [validKeyHash] },
+          { address: account, abi: accountAbi, functionName: 'callCheckerInfos', args: [validKeyHash] },
+        ] as const)
+      : [],
+    query: { enabled: !!account && !!validKeyHash },
+  });
+
+  const [keyRes, canExecRes, spendRes, checkerRes] = info ?? [];
+
+  return (
+    <div className="border border-gray-800 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold">Key Permission Inspector</h2>
+        <button
+          className="px-3 py-1 border border-gray-800 text-xs hover:bg-gray-900 disabled:opacity-50"
+          disabled={!account || isFetching}
+          onClick={() => {
+            refetchKeys();
+            refetch();
+          }}
+        >
+          {isFetching ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {!account ? (
+        <p className="text-xs text-gray-500">Connect your Porto account to inspect its keys.</p>
+      ) : (
+        <>
+          {/* Keys on the account */}
+          <div>
+            <h3 className="font-bold text-sm mb-2">Keys ({String(keyCount ?? '…')})</h3>
+            <div className="space-y-1">
+              {keys?.map((k, i) => {
+                if (k.status !== 'success') {
+                  return <div key={i} className="text-xs text-red-500">keyAt({i}) failed</div>;
+                }
+                const key = k.result as Key;
+                const kh = computeKeyHash(key.keyType, key.publicKey);
+                return (
+                  <button
+                    key={kh}
+                    className={`w-full text-left p-2 border text-xs ${kh === keyHash.toLowerCase() ? 'border-white' : 'border-gray-800 hover:bg-gray-900'}`}
+                    onClick={() => setKeyHash(kh)}
+                  >
+                    <div>
+                      {KEY_TYPES[key.keyType] ?? `type ${key.keyType}`}
+                      {key.isSuperAdmin && <span className="text-yellow-500"> · super admin</span>}
+                    </div>
+                    <code className="break-all text-gray-400">{kh}</code>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <input
+            className="w-full bg-black border border-gray-800 p-2 text-sm focus:border-gray-600 outline-none"
+            placeholder="Key hash 0x..."
+            value={keyHash}
+            onChange={(e) => setKeyHash(e.target.value)}
+          />
+
+          {validKeyHash && keyRes && (
+            <div className="space-y-4 text-xs">
+              {/* getKey */}
+              <div>
+                <h3 className="font-bold text-sm mb-1">Key</h3>
+                {keyRes.status === 'success' ? (
+                  <div className="space-y-1">
+                    <div>Type: {KEY_TYPES[keyRes.result.keyType] ?? keyRes.result.keyType}</div>
+                    <div>Super admin: {String(keyRes.result.isSuperAdmin)}</div>
+                    <div>Expiry: {keyRes.result.expiry === 0 ? 'never' : new Date(keyRes.result.expiry * 1000).toLocaleString()}</div>
+                    <div className="break-all">Public key: <code>{keyRes.result.publicKey}</code></div>
+                  </div>
+                ) : (
+                  <p className="text-red-500">Key not found on this account.</p>
+                )}
+              </div>
+
+              {/* canExecute */}
+              <div>
+                <h3 className="font-bold text-sm mb-1">Call Permissions</h3>
+                {canExecRes?.status === 'success' && canExecRes.result.length > 0 ? (
+                  <div className="space-y-1">
+                    {canExecRes.result.map((packed) => {
+                      const { target, fnSel } = decodePackedCanExecute(packed);
+                      return (
+                        <div key={packed} className="flex gap-2 p-2 border border-gray-800">
+                          <code className="flex-1 break-all">{describeTarget(target)}</code>
+                          <code>{describeSelector(fnSel)}</code>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-gray-500">None</p>
+                )}
+              </div>
+
+              {/* call checkers */}
+              <div>
+                <h3 className="font-bold text-sm mb-1">Call Checkers</h3>
+                {checkerRes?.status === 'success' && checkerRes.result.length > 0 ? (
+                  checkerRes.result.map((c) => (
+                    <div key={`${c.target}${c.checker}`} className="p-2 border border-gray-800 break-all">
+                      {describeTarget(c.target)} → checker <code>{c.checker}</code>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-gray-500">None</p>
+                )}
+              </div>
+
+              {/* spend limits */}
+              <div>
+                <h3 className="font-bold text-sm mb-1">Spend Limits</h3>
+                {spendRes?.status === 'success' && spendRes.result.length > 0 ? (
+                  <div className="space-y-1">
+                    {spendRes.result.map((s) => (
+                      <div key={`${s.token}${s.period}`} className="p-2 border border-gray-800 space-y-1">
+                        <div className="break-all">
+                          {describeToken(s.token)} · {SPEND_PERIODS[s.period] ?? `period ${s.period}`}
+                        </div>
+                        <div>
+                          Spent {s.currentSpent.toString()} of {s.limit.toString()}
+                          <span className="text-gray-500"> (remaining {(s.limit > s.currentSpent ? s.limit - s.currentSpent : BigInt(0)).toString()})</span>
+                        </div>
+                        <div className="text-gray-400">Current period started: {formatTime(s.current)}</div>
+                        <div className="text-gray-500">Last spend: {formatTime(s.lastUpdated)}</div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500">None</p>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
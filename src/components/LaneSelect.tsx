@@ -0,0 +1,103 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { Hex, isAddress } from 'viem';
+import { AUTO_SEQ_KEY, parseSeqKey } from '@/lib/nonce';
+import { describeApiError } from '@/lib/apiErrors';
+
+type LaneInfo = { seqKey: string; nonce: string; sequence: string; open: number };
+
+const inputClass = 'w-full bg-black border border-gray-800 p-2 text-sm focus:border-gray-600 outline-none';
+
+/**
+ * Picks the nonce lane (uint192 seqKey) for a new intent
+ *
+ * Lists the account's lanes from GET /api/lanes with their next sequence number and open
+ * intents. "Auto" lets the server pick a lane with nothing pending, so unrelated intents
+ * don't wait on each other.
+ *
+ * @param account The IthacaAccount the intent executes on
+ * @param chainId Chain to read nonces from
+ * @param value 'auto' or a decimal seqKey
+ * @param onChange Receives the new selection
+ */
+export default function LaneSelect({
+  account,
+  chainId,
+  value,
+  onChange,
+}: {
+  account?: Hex;
+  chainId: number;
+  value: string;
+  onChange: (seqKey: string) => void;
+}) {
+  const [lanes, setLanes] = useState<LaneInfo[]>([]);
+  const [next, setNext] = useState<string>();
+  const [error, setError] = useState<string>();
+  const [custom, setCustom] = useState(false);
+
+  useEffect(() => {
+    setLanes([]);
+    setNext(undefined);
+    setError(undefined);
+    if (!account || !isAddress(account)) return;
+    let cancelled = false;
+    fetch(`/api/lanes?${new URLSearchParams({ account, chainId: String(chainId) })}`)
+      .then((r) => r.json())
+      .then((res) => {
+        if (cancelled) return;
+        if (res.error) setError(describeApiError(res));
+        else {
+          setLanes(res.lanes);
+          setNext(res.next);
+        }
+      })
+      .catch(() => !cancelled && setError('Failed to load nonce lanes'));
+    return () => {
+      cancelled = true;
+    };
+  }, [account, chainId]);
+
+  const known = value === AUTO_SEQ_KEY || lanes.some((l) => l.seqKey === value);
+  const showCustom = custom || !known;
+
+  return (
+    <div className="space-y-2">
+      <select
+        className={inputClass}
+        value={showCustom ? 'custom' : value}
+        onChange={(e) => {
+          const v = e.target.value;
+          setCustom(v === 'custom');
+          if (v !== 'custom') onChange(v);
+        }}
+      >
+        <option value={AUTO_SEQ_KEY}>Auto: first free lane{next !== undefined ? ` (lane ${next})` : ''}</option>
+        {lanes.map((l) => (
+          <option key={l.seqKey} value={l.seqKey}>
+            Lane {l.seqKey} · next nonce #{l.sequence}
+            {l.open > 0 ? ` · ${l.open} open intent${l.open > 1 ? 's' : ''}` : ''}
+          </option>
+        ))}
+        <option value="custom">Custom lane…</option>
+      </select>
+      {showCustom && (
+        <input
+          className={inputClass}
+          placeholder="seqKey (uint192, decimal or 0x-hex)"
+          value={value === AUTO_SEQ_KEY ? '' : value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )}
+      {showCustom && value !== '' && parseSeqKey(value) === undefined && (
+        <p className="text-xs text-red-500">seqKey must be an integer between 0 and 2^192 − 1</p>
+      )}
+      {lanes.find((l) => l.seqKey === value && l.open > 0) && (
+        <p className="text-xs text-yellow-500">
+          This lane already has an open intent; only one of them can execute at this nonce.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
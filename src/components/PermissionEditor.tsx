@@ -0,0 +1,264 @@
+'use client';
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import { Abi, Hex, isAddress, isHex, toFunctionSelector } from 'viem';
+import { abi as accountAbi } from '../../abis/IthacaAccount.json';
+import {
+  ANY_FN_SEL,
+  ANY_TARGET,
+  EMPTY_CALLDATA_FN_SEL,
+  NATIVE_TOKEN,
+  PermissionChange,
+  SPEND_PERIODS,
+  describePermissionChange,
+  encodePermissionChangeExecute,
+  permissionChangeCall,
+} from '@/lib/permissions';
+import { AUTO_SEQ_KEY } from '@/lib/nonce';
+import { signProposal } from '@/lib/proposal';
+import { describeApiError } from '@/lib/apiErrors';
+
+const inputClass = 'bg-black border border-gray-800 p-2 text-xs focus:border-gray-600 outline-none';
+
+/**
+ * Parses a selector field: 4-byte hex, a function signature like `transfer(address,uint256)`,
+ * or one of the GuardedExecutor sentinels
+ */
+function parseSelector(input: string, special: string): Hex | undefined {
+  if (special === 'any') return ANY_FN_SEL;
+  if (special === 'empty') return EMPTY_CALLDATA_FN_SEL;
+  const s = input.trim();
+  if (isHex(s) && s.length === 10) return s as Hex;
+  try {
+    return s.includes('(') ? toFunctionSelector(s.startsWith('function ') ? s : `function ${s}`) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Editor for the external key's call and spend permissions
+ *
+ * Before the key exists the change list is included in the batched external-key setup.
+ * Afterwards it can be applied in one `sendCalls` from the connected account, or
+ * proposed as one multisig intent.
+ *
+ * @param changes Pending permission changes
+ * @param onChange State setter for the change list
+ * @param account The Porto account
+ * @param keyHash The external key hash the permissions apply to
+ * @param multisig MultisigSigner address (for proposing an intent)
+ * @param chainId Chain the intent is created on
+ * @param keyLive Whether the multisig is initialized for this key
+ * @param onSendCalls Sends prepared calls through the connected wallet
+ * @param onProposed Called with the new intent id
+ */
+export default function PermissionEditor({
+  changes,
+  onChange,
+  account,
+  keyHash,
+  multisig,
+  chainId,
+  keyLive,
+  onSendCalls,
+  onProposed,
+}: {
+  changes: PermissionChange[];
+  onChange: Dispatch<SetStateAction<PermissionChange[]>>;
+  account?: Hex;
+  keyHash?: Hex;
+  multisig: Hex;
+  chainId: number;
+  keyLive: boolean;
+  onSendCalls: (calls: { to: Hex; data: Hex }[]) => Promise<void>;
+  onProposed: (id: string) => void;
+}) {
+  const [target, setTarget] = useState('');
+  const [anyTarget, setAnyTarget] = useState(false);
+  const [selector, setSelector] = useState('');
+  const [selectorSpecial, setSelectorSpecial] = useState<'custom' | 'any' | 'empty'>('custom');
+  const [can, setCan] = useState(true);
+
+  const [token, setToken] = useState('');
+  const [period, setPeriod] = useState(6);
+  const [limit, setLimit] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const fnSel = parseSelector(selector, selectorSpecial);
+  const callTarget = anyTarget ? ANY_TARGET : isAddress(target) ? (target as Hex) : undefined;
+  const spendToken = token.trim() === '' ? NATIVE_TOKEN : isAddress(token) ? (token as Hex) : undefined;
+
+  const add = (c: PermissionChange) => onChange((prev) => [...prev, c]);
+
+  const apply = async () => {
+    if (!account || !keyHash) return;
+    setBusy(true);
+    try {
+      await onSendCalls(changes.map((c) => encodePermissionChangeExecute(c, { account, keyHash, accountAbi: accountAbi as Abi })));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const propose = async () => {
+    if (!account || !keyHash) return;
+    setBusy(true);
+    try {
+      const proposal = await signProposal(account, chainId);
+      const res = await fetch('/api/intents', {
+        method: 'POST',
+        body: JSON.stringify({
+          account,
+          chainId,
+          externalKeyHash: keyHash,
+          seqKey: AUTO_SEQ_KEY,
+          calls: changes.map((c) => permissionChangeCall(c, { account, keyHash, accountAbi: accountAbi as Abi })),
+          multisigAddress: multisig,
+          proposal,
+        }),
+        headers: { 'content-type': 'application/json' },
+      }).then((r) => r.json());
+      if (res.id) onProposed(res.id);
+      else alert(describeApiError(res, 'failed'));
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-800 p-4 mb-4">
+      <h2 className="font-bold mb-1">External Key Permissions</h2>
+      <p className="text-xs text-gray-500 mb-3">
+        {keyLive
+          ? 'Apply changes from the connected account, or propose them as a multisig intent.'
+          : 'These permissions are granted together with the external key in "Setup External Key (Batched)".'}
+      </p>
+
+      {/* Pending changes */}
+      <div className="space-y-1 mb-3">
+        {changes.length === 0 && <p className="text-xs text-gray-500">No changes queued.</p>}
+        {changes.map((c, i) => (
+          <div key={i} className="flex items-center gap-2 p-2 border border-gray-800 text-xs">
+            <span className="w-4 text-gray-500">{i + 1}</span>
+            <span className="flex-1 break-all">{describePermissionChange(c)}</span>
+            <button
+              className="px-2 py-1 border border-gray-800 hover:bg-gray-900"
+              onClick={() => onChange((prev) => prev.filter((_, j) => j !== i))}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* setCanExecute */}
+      <div className="border border-gray-800 p-3 mb-3 space-y-2">
+        <h3 className="font-bold text-sm">Call Permission</h3>
+        <div className="flex gap-2 items-center">
+          <input
+            className={`${inputClass} flex-1`}
+            placeholder="Target 0x..."
+            value={anyTarget ? ANY_TARGET : target}
+            disabled={anyTarget}
+            onChange={(e) => setTarget(e.target.value)}
+          />
+          <label className="text-xs flex items-center gap-1">
+            <input type="checkbox" checked={anyTarget} onChange={(e) => setAnyTarget(e.target.checked)} /> Any target
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <select
+            className={inputClass}
+            value={selectorSpecial}
+            onChange={(e) => setSelectorSpecial(e.target.value as 'custom' | 'any' | 'empty')}
+          >
+            <option value="custom">Selector</option>
+            <option value="any">Any function</option>
+            <option value="empty">Empty calldata</option>
+          </select>
+          {selectorSpecial === 'custom' && (
+            <input
+              className={`${inputClass} flex-1`}
+              placeholder="0xa9059cbb or transfer(address,uint256)"
+              value={selector}
+              onChange={(e) => setSelector(e.target.value)}
+            />
+          )}
+          <select className={inputClass} value={can ? 'grant' : 'revoke'} onChange={(e) => setCan(e.target.value === 'grant')}>
+            <option value="grant">Grant</option>
+            <option value="revoke">Revoke</option>
+          </select>
+        </div>
+        {selectorSpecial === 'custom' && fnSel && <p className="text-xs text-gray-500">Selector: <code>{fnSel}</code></p>}
+        <button
+          className="px-3 py-2 border border-gray-800 text-xs hover:bg-gray-900 disabled:opacity-50"
+          disabled={!callTarget || !fnSel}
+          onClick={() => callTarget && fnSel && add({ kind: 'canExecute', target: callTarget, fnSel, can })}
+        >
+          Queue Call Permission
+        </button>
+      </div>
+
+      {/* setSpendLimit / removeSpendLimit */}
+      <div className="border border-gray-800 p-3 mb-3 space-y-2">
+        <h3 className="font-bold text-sm">Spend Limit</h3>
+        <div className="flex gap-2">
+          <input
+            className={`${inputClass} flex-1`}
+            placeholder="Token 0x... (empty = native ETH)"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+          <select className={inputClass} value={period} onChange={(e) => setPeriod(Number(e.target.value))}>
+            {SPEND_PERIODS.map((p, i) => (
+              <option key={p} value={i}>{p}</option>
+            ))}
+          </select>
+        </div>
+        <input
+          className={`${inputClass} w-full`}
+          placeholder="Limit in base units (wei for ETH)"
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <button
+            className="px-3 py-2 border border-gray-800 text-xs hover:bg-gray-900 disabled:opacity-50"
+            disabled={!spendToken || !/^\d+$/.test(limit)}
+            onClick={() => spendToken && add({ kind: 'spendLimit', token: spendToken, period, limit: BigInt(limit) })}
+          >
+            Queue Spend Limit
+          </button>
+          <button
+            className="px-3 py-2 border border-gray-800 text-xs hover:bg-gray-900 disabled:opacity-50"
+            disabled={!spendToken}
+            onClick={() => spendToken && add({ kind: 'removeSpendLimit', token: spendToken, period })}
+          >
+            Queue Removal
+          </button>
+        </div>
+      </div>
+
+      {keyLive && (
+        <div className="flex gap-2">
+          <button
+            className="flex-1 px-3 py-2 bg-blue-600 text-white text-xs font-bold hover:bg-blue-700 disabled:opacity-50"
+            disabled={busy || !account || !keyHash || changes.length === 0}
+            onClick={apply}
+          >
+            Apply via Wallet (one batch)
+          </button>
+          <button
+            className="flex-1 px-3 py-2 bg-green-600 text-white text-xs font-bold hover:bg-green-700 disabled:opacity-50"
+            disabled={busy || !account || !keyHash || changes.length === 0}
+            onClick={propose}
+          >
+            Propose as Intent
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+import { useCallback, useEffect, useState } from 'react';
+import { describeApiError } from '@/lib/apiErrors';
+
+export type SimulationView = {
+  ok: boolean;
+  mode: 'full' | 'calls';
+  revert?: { name: string; args: string[]; description: string };
+  failedCall?: number;
+  at: number;
+};
+
+/**
+ * Result of POST /api/intents/[id]/simulate, shown to signers before they sign
+ *
+ * Runs a fresh simulation on mount (and on demand) while the intent is still open.
+ *
+ * @param intentId The intent to simulate
+ * @param initial Simulation stored by the last submit attempt, shown until the fresh one returns
+ * @param active Whether the intent can still execute (otherwise only the stored result is shown)
+ */
+export default function SimulationPanel({
+  intentId,
+  initial,
+  active,
+}: {
+  intentId: string;
+  initial?: SimulationView;
+  active: boolean;
+}) {
+  const [sim, setSim] = useState<SimulationView | undefined>(initial);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const run = useCallback(async () => {
+    setRunning(true);
+    setError(undefined);
+    try {
+      const res = await fetch(`/api/intents/${intentId}/simulate`, { method: 'POST' }).then((r) => r.json());
+      if (res.error) setError(describeApiError(res));
+      else setSim(res);
+    } catch {
+      setError('Simulation request failed');
+    } finally {
+      setRunning(false);
+    }
+  }, [intentId]);
+
+  useEffect(() => {
+    if (active) run();
+  }, [active, run]);
+
+  return (
+    <div className="mb-4 p-3 border border-gray-800 text-xs space-y-1">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold text-sm">Simulation</h2>
+        {active && (
+          <button
+            className="px-2 py-1 border border-gray-800 hover:bg-gray-900 disabled:opacity-50"
+            disabled={running}
+            onClick={run}
+          >
+            {running ? 'Running...' : 'Re-run'}
+          </button>
+        )}
+      </div>
+      {!sim && !error && <div className="text-gray-500">{running ? 'Simulating…' : 'Not simulated yet.'}</div>}
+      {sim && (
+        <>
+          <div className={sim.ok ? 'text-green-500' : 'text-red-500'}>
+            {sim.ok ? '✓ Would succeed' : `✗ Would revert${sim.revert ? `: ${sim.revert.name}` : ''}`}
+          </div>
+          {sim.revert && <div className="text-red-400 break-all">{sim.revert.description}</div>}
+          {sim.revert && sim.revert.args.length > 0 && sim.revert.name !== 'Error' && (
+            <code className="block text-gray-500 break-all">
+              {sim.revert.name}({sim.revert.args.join(', ')})
+            </code>
+          )}
+          <div className="text-gray-500">
+            {sim.mode === 'full'
+              ? 'Full execute with the collected signatures.'
+              : 'Calls only (signatures pending): call permissions checked and calls dry-run from the account; spend limits are enforced once the threshold is met.'}{' '}
+            {new Date(sim.at).toLocaleTimeString()}
+          </div>
+        </>
+      )}
+      {error && <div className="text-red-500">{error}</div>}
+    </div>
+  );
+}
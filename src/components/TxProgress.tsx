@@ -0,0 +1,148 @@
+'use client';
+import { useState } from 'react';
+import { useBlockNumber } from 'wagmi';
+import { formatGwei, type Hex } from 'viem';
+import { getChainConfig } from '@/lib/chains';
+import { describeApiError } from '@/lib/apiErrors';
+import { signProposal } from '@/lib/proposal';
+
+type Receipt = { blockNumber: string; gasUsed: string; effectiveGasPrice: string };
+type Attempt = {
+  kind: 'submit' | 'speedup' | 'cancel';
+  hash?: Hex;
+  nonce?: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  at: number;
+  error?: string;
+};
+
+/**
+ * Confirmation progress for a submitted intent
+ *
+ * The server's receipt tracker fills in `receipt`; confirmations are counted against the
+ * chain head from the wallet transport. While pending, the relayer transaction can be replaced
+ * at the same nonce (speed up, or cancel so execute never lands). Replacing is signed with the owner's passkey.
+ *
+ * @param intentId Intent the transaction belongs to
+ * @param account Account the intent executes on
+ * @param chainId Chain the transaction was sent on
+ * @param txHash Transaction hash returned by submit
+ * @param status Intent status (submitted / confirmed / failed)
+ * @param submittedAt When the transaction was broadcast (ms)
+ * @param lastCheckedAt Last receipt poll that found nothing (ms), as of the last page load
+ * @param receipt Receipt summary once mined
+ * @param attempts Every relayer send for the intent
+ * @param onReplaced Called after a replacement was sent (to refetch the intent)
+ */
+export default function TxProgress({
+  intentId,
+  account,
+  chainId,
+  txHash,
+  status,
+  submittedAt,
+  lastCheckedAt,
+  receipt,
+  attempts,
+  onReplaced,
+}: {
+  intentId: string;
+  account: Hex;
+  chainId: number;
+  txHash: Hex;
+  status: string;
+  submittedAt?: number;
+  lastCheckedAt?: number;
+  receipt?: Receipt;
+  attempts?: Attempt[];
+  onReplaced?: () => void;
+}) {
+  const [replacing, setReplacing] = useState<'speedup' | 'cancel'>();
+  const chain = getChainConfig(chainId)?.chain;
+  const { data: head } = useBlockNumber({ chainId, watch: !!receipt });
+  const explorer = chain?.blockExplorers?.default.url;
+  const confirmations = receipt && head !== undefined ? head - BigInt(receipt.blockNumber) + BigInt(1) : undefined;
+
+  async function replace(action: 'speedup' | 'cancel') {
+    if (action === 'cancel' && !confirm('Replace the pending transaction with a no-op? The intent goes back to collecting.')) return;
+    setReplacing(action);
+    try {
+      const proposal = await signProposal(account, chainId);
+      const res = await fetch(`/api/intents/${intentId}/replace`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, proposal }),
+      }).then((r) => r.json());
+      if (res.error) alert(describeApiError(res));
+      onReplaced?.();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'replace failed');
+    } finally {
+      setReplacing(undefined);
+    }
+  }
+
+  return (
+    <div className="mt-4 p-3 border border-gray-800 text-xs space-y-1">
+      <h2 className="font-bold text-sm">Transaction</h2>
+      <div className="break-all">
+        Hash:{' '}
+        {explorer ? (
+          <a className="underline" href={`${explorer}/tx/${txHash}`} target="_blank" rel="noreferrer">{txHash}</a>
+        ) : (
+          <code>{txHash}</code>
+        )}
+      </div>
+      {!receipt ? (
+        <div className="text-yellow-500">
+          Waiting to be mined
+          {submittedAt ? ` · sent ${Math.max(0, Math.round((Date.now() - submittedAt) / 1000))}s ago` : ''}
+          {lastCheckedAt ? ` · last checked ${new Date(lastCheckedAt).toLocaleTimeString()}` : ''}
+        </div>
+      ) : (
+        <>
+          <div className={status === 'confirmed' ? 'text-green-500' : 'text-red-500'}>
+            {status === 'confirmed' ? '✓ Executed' : '✗ Reverted on-chain'} in block {receipt.blockNumber}
+            {confirmations !== undefined && confirmations > BigInt(0) && ` · ${confirmations.toString()} confirmation${confirmations === BigInt(1) ? '' : 's'}`}
+          </div>
+          <div className="text-gray-400">
+            Gas used {receipt.gasUsed} @ {formatGwei(BigInt(receipt.effectiveGasPrice))} gwei
+          </div>
+        </>
+      )}
+      {status === 'submitted' && !receipt && (
+        <div className="flex gap-2 pt-1">
+          <button
+            className="px-2 py-1 border border-gray-800 hover:bg-gray-900 disabled:opacity-50"
+            disabled={!!replacing}
+            onClick={() => replace('speedup')}
+          >
+            {replacing === 'speedup' ? 'Sending...' : 'Speed up'}
+          </button>
+          <button
+            className="px-2 py-1 border border-red-900 text-red-400 hover:bg-gray-900 disabled:opacity-50"
+            disabled={!!replacing}
+            onClick={() => replace('cancel')}
+          >
+            {replacing === 'cancel' ? 'Sending...' : 'Cancel tx'}
+          </button>
+        </div>
+      )}
+      {attempts && attempts.length > 0 && (
+        <div className="pt-2">
+          <div className="text-gray-500">Relayer attempts</div>
+          {attempts.map((a, i) => (
+            <div key={i} className={`break-all ${a.error ? 'text-red-400' : a.hash === txHash ? 'text-gray-200' : 'text-gray-500'}`}>
+              {new Date(a.at).toLocaleTimeString()} · {a.kind} · nonce {a.nonce ?? '?'} ·{' '}
+              {a.maxFeePerGas && a.maxPriorityFeePerGas
+                ? `${formatGwei(BigInt(a.maxFeePerGas))}/${formatGwei(BigInt(a.maxPriorityFeePerGas))} gwei · `
+                : ''}
+              {a.error ?? a.hash}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
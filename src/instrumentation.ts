@@ -0,0 +1,10 @@
+/**
+ * Next.js server startup hook: resumes receipt tracking for intents submitted before a restart
+ */
+export async function register() {
+  // The runtime check must wrap the import itself so the edge bundle never pulls in fs
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startTracker } = await import('./app/api/_lib/tracker');
+    startTracker();
+  }
+}
@@ -48,6 +48,78 @@ export const accountAbi = [
       { name: 'keyHash', type: 'bytes32' },
     ],
   },
+  // permission / key inspection views
+  {
+    type: 'function',
+    stateMutability: 'view',
+    name: 'canExecutePackedInfos',
+    inputs: [{ name: 'keyHash', type: 'bytes32' }],
+    outputs: [{ name: '', type: 'bytes32[]' }],   // (target << 96) | fnSel
+  },
+  {
+    type: 'function',
+    stateMutability: 'view',
+    name: 'spendInfos',
+    inputs: [{ name: 'keyHash', type: 'bytes32' }],
+    outputs: [{
+      name: 'results',
+      type: 'tuple[]',
+      components: [
+        { name: 'token', type: 'address' },
+        { name: 'period', type: 'uint8' },
+        { name: 'limit', type: 'uint256' },
+        { name: 'spent', type: 'uint256' },
+        { name: 'lastUpdated', type: 'uint256' },
+        { name: 'currentSpent', type: 'uint256' },
+        { name: 'current', type: 'uint256' },     // start of the current period
+      ],
+    }],
+  },
+  {
+    type: 'function',
+    stateMutability: 'view',
+    name: 'callCheckerInfos',
+    inputs: [{ name: 'keyHash', type: 'bytes32' }],
+    outputs: [{
+      name: 'results',
+      type: 'tuple[]',
+      components: [
+        { name: 'target', type: 'address' },
+        { name: 'checker', type: 'address' },
+      ],
+    }],
+  },
+  {
+    type: 'function',
+    stateMutability: 'view',
+    name: 'getKey',
+    inputs: [{ name: 'keyHash', type: 'bytes32' }],
+    outputs: [{ name: 'key', type: 'tuple', components: [
+      { name: 'expiry', type: 'uint40' },
+      { name: 'keyType', type: 'uint8' },
+      { name: 'isSuperAdmin', type: 'bool' },
+      { name: 'publicKey', type: 'bytes' },
+    ] }],
+  },
+  {
+    type: 'function',
+    stateMutability: 'view',
+    name: 'keyCount',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    stateMutability: 'view',
+    name: 'keyAt',
+    inputs: [{ name: 'i', type: 'uint256' }],
+    outputs: [{ name: '', type: 'tuple', components: [
+      { name: 'expiry', type: 'uint40' },
+      { name: 'keyType', type: 'uint8' },
+      { name: 'isSuperAdmin', type: 'bool' },
+      { name: 'publicKey', type: 'bytes' },
+    ] }],
+  },
   // authorize function for external keys
   {
     type: 'function',
@@ -76,4 +148,12 @@ export const accountAbi = [
     ],
     outputs: [],
   },
+  // cancellation: marks a nonce (and everything below it on its lane) as used
+  {
+    type: 'function',
+    stateMutability: 'nonpayable',
+    name: 'invalidateNonce',
+    inputs: [{ name: 'nonce', type: 'uint256' }],
+    outputs: [],
+  },
 ] as const;
\ No newline at end of file
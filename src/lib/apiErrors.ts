@@ -0,0 +1,54 @@
+// Error envelope returned by every API route (see src/app/api/_lib/errors.ts)
+export type ApiErrorBody = {
+  error?: string;
+  code?: string;
+  field?: string;
+  [detail: string]: unknown;
+};
+
+const MESSAGES: Record<string, (e: ApiErrorBody) => string> = {
+  INVALID_PAYLOAD: (e) => `Invalid input: ${e.error}`,
+  NOT_FOUND: () => 'Not found. The intent or resource may have been removed.',
+  UNSUPPORTED_CHAIN: () => 'This chain is not configured on the server.',
+  MULTISIG_NOT_CONFIGURED: () => 'This multisig key has no owners yet. Initialize it before proposing intents.',
+  INVALID_CONFIG_CHANGE: (e) => `${e.error}. The owners and threshold after this change would be invalid.`,
+  PROPOSER_UNAUTHENTICATED: () => 'Your passkey signature for this proposal could not be verified. Please try again.',
+  PROPOSER_NOT_OWNER: () => 'Only owners of this multisig can propose intents. Your passkey is not one of them.',
+  UNAUTHORIZED: () => 'You are not authorized for this action.',
+  FEATURE_DISABLED: (e) => `This feature is turned off on the server (${e.error}).`,
+  INVALID_SIGNATURE: () => 'The signature does not verify for this intent. Sign with a passkey registered on the account.',
+  SIGNER_NOT_OWNER: () => 'The passkey you signed with is not an owner of this multisig.',
+  DIGEST_MISMATCH: () =>
+    'The digest of this intent no longer matches the account, so it cannot be signed. Propose it again.',
+  NONCE_MISMATCH: (e) =>
+    `The account nonce has moved on (intent ${e.intentNonce ?? '?'}, current ${e.currentNonce ?? '?'}). ` +
+    'Rebase the intent and collect signatures again.',
+  INTENT_STALE: () => 'Another transaction used this intent\'s nonce. Rebase it and sign the new intent.',
+  INTENT_CLOSED: (e) => `${e.error}. It can no longer be signed or submitted.`,
+  ALREADY_SUBMITTED: (e) => `${e.error}.`,
+  THRESHOLD_NOT_MET: (e) =>
+    `Not enough signatures yet${e.k !== undefined ? ` (${e.k} of ${e.M})` : ''}. ` +
+    (e.configDrift ? 'The multisig owners or threshold changed on-chain since this intent was proposed. ' : '') +
+    'Collect more before submitting.',
+  INVALID_STATE: (e) => `${e.error}.`,
+  SIMULATION_FAILED: (e) => `${e.error}. Nothing was sent.`,
+  RELAYER_NOT_CONFIGURED: () => 'The server has no relayer key for this chain, so it cannot submit.',
+  SUBMISSION_FAILED: (e) => `Sending the transaction failed: ${e.error}`,
+  UPSTREAM_ERROR: (e) => `The chain could not be read: ${e.error}`,
+  RATE_LIMITED: () => 'Too many requests right now. Please try again in a few minutes.',
+  STORE_BUSY: () => 'The server is busy saving other changes. Please try again in a moment.',
+  INTERNAL_ERROR: () => 'Something went wrong on the server.',
+};
+
+/**
+ * User-facing message for an API error response
+ *
+ * @param res Parsed response body
+ * @param fallback Used when the body carries neither a known code nor a message
+ * @returns The message to show
+ */
+export function describeApiError(res: ApiErrorBody, fallback = 'Request failed') {
+  const message = res.code ? MESSAGES[res.code] : undefined;
+  if (message) return message(res);
+  return res.error || fallback;
+}
@@ -0,0 +1,137 @@
+import {
+  Abi,
+  AbiFunction,
+  AbiParameter,
+  Hex,
+  decodeFunctionData,
+  encodeFunctionData,
+  isAddress,
+  isHex,
+  parseAbi,
+  toFunctionSignature,
+} from 'viem';
+
+/**
+ * Parses user-supplied ABI text
+ *
+ * Accepts a JSON ABI array, a Foundry/Hardhat artifact with an `abi` field,
+ * or human-readable signatures (one per line, e.g. `function transfer(address,uint256)`).
+ *
+ * @param text The pasted ABI
+ * @returns The parsed ABI
+ */
+export function parseAbiInput(text: string): Abi {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed);
+    const abi = Array.isArray(json) ? json : json.abi;
+    if (!Array.isArray(abi)) throw new Error('JSON does not contain an ABI array');
+    return abi as Abi;
+  }
+  const lines = trimmed.split('\n').map((l) => l.trim()).filter(Boolean);
+  return parseAbi(lines.map((l) => (l.startsWith('function ') ? l : `function ${l}`)));
+}
+
+/**
+ * Returns the state-changing functions of an ABI (the ones worth proposing as intents)
+ */
+export const writableFunctions = (abi: Abi) =>
+  abi.filter(
+    (item): item is AbiFunction =>
+      item.type === 'function' && item.stateMutability !== 'view' && item.stateMutability !== 'pure',
+  );
+
+export const functionLabel = (fn: AbiFunction) => toFunctionSignature(fn);
+
+/**
+ * Converts a form value into the JS value viem expects for an ABI parameter
+ *
+ * Scalars are entered as plain text; arrays and tuples as JSON (numbers may be quoted).
+ *
+ * @param param The ABI parameter
+ * @param raw The string from the form, or an already-parsed JSON value for nested types
+ * @returns The coerced value
+ */
+export function coerceArg(param: AbiParameter, raw: unknown): unknown {
+  const type = param.type;
+  const label = param.name || type;
+
+  const arrayMatch = type.match(/^(.*)\[(\d*)\]$/);
+  if (arrayMatch) {
+    const items = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    if (!Array.isArray(items)) throw new Error(`${label}: expected a JSON array`);
+    if (arrayMatch[2] && items.length !== Number(arrayMatch[2])) {
+      throw new Error(`${label}: expected ${arrayMatch[2]} items`);
+    }
+    const inner = { ...param, type: arrayMatch[1] } as AbiParameter;
+    return items.map((v) => coerceArg(inner, v));
+  }
+
+  if (type === 'tuple') {
+    const components = 'components' in param ? param.components : [];
+    const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    if (Array.isArray(value)) return components.map((c, i) => coerceArg(c, value[i]));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        components.map((c, i) => [c.name ?? String(i), coerceArg(c, (value as Record<string, unknown>)[c.name ?? String(i)])]),
+      );
+    }
+    throw new Error(`${label}: expected a JSON object or array`);
+  }
+
+  const str = String(raw ?? '').trim();
+  if (type.startsWith('uint') || type.startsWith('int')) {
+    if (!/^-?\d+$/.test(str) && !isHex(str)) throw new Error(`${label}: expected an integer`);
+    const n = BigInt(str);
+    if (type.startsWith('uint') && n < BigInt(0)) throw new Error(`${label}: must not be negative`);
+    return n;
+  }
+  if (type === 'bool') {
+    if (str !== 'true' && str !== 'false') throw new Error(`${label}: expected true or false`);
+    return str === 'true';
+  }
+  if (type === 'address') {
+    if (!isAddress(str)) throw new Error(`${label}: invalid address`);
+    return str as Hex;
+  }
+  if (type.startsWith('bytes')) {
+    if (!isHex(str)) throw new Error(`${label}: expected 0x-prefixed hex`);
+    return str as Hex;
+  }
+  return str;
+}
+
+/**
+ * Encodes calldata for a function from form inputs
+ *
+ * @param fn The ABI function
+ * @param inputs One string per function input
+ * @returns The encoded calldata
+ */
+export function encodeCall(fn: AbiFunction, inputs: string[]): Hex {
+  const args = fn.inputs.map((p, i) => coerceArg(p, inputs[i]));
+  return encodeFunctionData({ abi: [fn], functionName: fn.name, args });
+}
+
+/**
+ * Decodes calldata against a single function fragment
+ *
+ * @param fn The ABI function the calldata claims to call
+ * @param data The calldata
+ * @returns The function name and decoded arguments; throws if the calldata does not match
+ */
+export function decodeCall(fn: AbiFunction, data: Hex) {
+  const { functionName, args } = decodeFunctionData({ abi: [fn], data });
+  return { functionName, args: (args ?? []) as readonly unknown[] };
+}
+
+/**
+ * Formats a decoded argument for display (bigints as decimals, nested values as JSON)
+ */
+export const formatArg = (v: unknown): string =>
+  typeof v === 'bigint'
+    ? v.toString()
+    : typeof v === 'object' && v !== null
+      ? JSON.stringify(v, (_k, x) => (typeof x === 'bigint' ? x.toString() : x))
+      : String(v);
@@ -1,8 +1,73 @@
-import { defineChain } from 'viem';
+import { Chain, Hex, defineChain } from 'viem';
+
+/**
+ * Chain registry
+ *
+ * Configured with NEXT_PUBLIC_CHAINS, a JSON array of
+ *   { "id": 84532, "name": "Base Sepolia", "rpcUrl": "https://…", "multisig": "0x…" }
+ * (optionally with "nativeCurrency" and "blockExplorer"). Relayer keys are server-only and
+ * live in RELAYER_PRIVATE_KEY_<chainId> (see api/_lib/viem.ts).
+ *
+ * When NEXT_PUBLIC_CHAINS is unset the registry falls back to Base Sepolia configured with
+ * NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL and NEXT_PUBLIC_MULTISIG_SIGNER.
+ */
+export type ChainConfig = {
+  chain: Chain;
+  rpcUrl?: string;
+  multisig: Hex;               // MultisigSigner deployment on this chain
+};
+
+type ChainEnvEntry = {
+  id: number;
+  name: string;
+  rpcUrl?: string;
+  multisig: Hex;
+  nativeCurrency?: { name: string; symbol: string; decimals: number };
+  blockExplorer?: string;
+};
 
 export const baseSepolia = defineChain({
   id: 84532,
   name: 'Base Sepolia',
   nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
   rpcUrls: { default: { http: [process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL!] } },
-});
\ No newline at end of file
+});
+
+const toChainConfig = (e: ChainEnvEntry): ChainConfig => ({
+  chain: defineChain({
+    id: e.id,
+    name: e.name,
+    nativeCurrency: e.nativeCurrency ?? { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: e.rpcUrl ? [e.rpcUrl] : [] } },
+    ...(e.blockExplorer ? { blockExplorers: { default: { name: 'Explorer', url: e.blockExplorer } } } : {}),
+  }),
+  rpcUrl: e.rpcUrl,
+  multisig: e.multisig,
+});
+
+function loadChains(): ChainConfig[] {
+  // Must be read as a literal property so Next.js inlines it into client bundles
+  const raw = process.env.NEXT_PUBLIC_CHAINS;
+  if (!raw) {
+    return [
+      {
+        chain: baseSepolia,
+        rpcUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL,
+        multisig: process.env.NEXT_PUBLIC_MULTISIG_SIGNER as Hex,
+      },
+    ];
+  }
+  const entries = JSON.parse(raw) as ChainEnvEntry[];
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('NEXT_PUBLIC_CHAINS must be a non-empty JSON array');
+  }
+  return entries.map(toChainConfig);
+}
+
+export const chainConfigs = loadChains();
+
+// The first configured chain is the default for new intents
+export const DEFAULT_CHAIN_ID = chainConfigs[0].chain.id;
+
+export const getChainConfig = (chainId: number | undefined) =>
+  chainConfigs.find((c) => c.chain.id === Number(chainId));
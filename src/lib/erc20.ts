@@ -0,0 +1,86 @@
+import { AbiFunction, Hex, decodeFunctionData, encodeFunctionData, erc20Abi, formatUnits, parseUnits } from 'viem';
+
+export type TokenMeta = { symbol: string; decimals: number };
+
+export type Erc20Template = 'transfer' | 'approve' | 'transferFrom';
+
+export const ERC20_TEMPLATES: Erc20Template[] = ['transfer', 'approve', 'transferFrom'];
+
+const fragment = (name: Erc20Template) =>
+  erc20Abi.find((i) => i.type === 'function' && i.name === name) as AbiFunction;
+
+/**
+ * Builds an ERC-20 call from human-readable inputs
+ *
+ * @param template Which ERC-20 function to call
+ * @param token Token contract address
+ * @param meta Token decimals (and symbol, unused here)
+ * @param params Addresses for the template plus the amount in whole-token units, e.g. "1250.5"
+ * @returns A call ready for POST /api/intents (value is always 0)
+ */
+export function buildErc20Call(
+  template: Erc20Template,
+  token: Hex,
+  meta: TokenMeta,
+  params: { to?: Hex; spender?: Hex; from?: Hex; amount: string },
+) {
+  const amount = parseUnits(params.amount, meta.decimals);
+  const args =
+    template === 'transfer'
+      ? [params.to, amount]
+      : template === 'approve'
+        ? [params.spender, amount]
+        : [params.from, params.to, amount];
+
+  const abi = fragment(template);
+  const data = encodeFunctionData({ abi: [abi], functionName: template, args });
+  return { to: token, value: '0', data, abi };
+}
+
+/**
+ * Recognizes ERC-20 transfer/approve/transferFrom calldata
+ *
+ * @param data Calldata of a call
+ * @returns The decoded action, or undefined if the selector is not one of the templates
+ */
+export function decodeErc20Call(data: Hex) {
+  if (!data || data.length < 10) return undefined;
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data });
+    if (functionName === 'transfer') return { kind: 'transfer' as const, to: args[0], amount: args[1] };
+    if (functionName === 'approve') return { kind: 'approve' as const, spender: args[0], amount: args[1] };
+    if (functionName === 'transferFrom') {
+      return { kind: 'transferFrom' as const, from: args[0], to: args[1], amount: args[2] };
+    }
+  } catch {
+    // not ERC-20 calldata
+  }
+  return undefined;
+}
+
+/**
+ * Formats a token amount with thousands separators and at least two decimals, e.g. 1,250.00
+ */
+export function formatTokenAmount(amount: bigint, decimals: number) {
+  const [whole, fraction = ''] = formatUnits(amount, decimals).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return `${grouped}.${fraction.padEnd(2, '0')}`;
+}
+
+const short = (a: Hex) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+
+/**
+ * Describes an ERC-20 call in plain words, e.g. "send 1,250.00 USDC to 0x1234…abcd"
+ *
+ * @param data Calldata of the call
+ * @param meta Token metadata (symbol + decimals)
+ * @returns The description, or undefined when the call is not a recognized ERC-20 action
+ */
+export function describeErc20Call(data: Hex, meta: TokenMeta) {
+  const action = decodeErc20Call(data);
+  if (!action) return undefined;
+  const amount = `${formatTokenAmount(action.amount, meta.decimals)} ${meta.symbol}`;
+  if (action.kind === 'transfer') return `send ${amount} to ${short(action.to)}`;
+  if (action.kind === 'approve') return `approve ${short(action.spender)} to spend ${amount}`;
+  return `move ${amount} from ${short(action.from)} to ${short(action.to)}`;
+}
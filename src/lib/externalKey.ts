@@ -9,12 +9,16 @@ export function externalPublicKey(multisig: Hex, salt12: Hex): Hex {
   return concatHex([multisig, salt12]); // 20 + 12 = 32 bytes
 }
 
+// Compute bytes32 keyHash for any key: keccak256(abi.encode(keyType, keccak256(publicKey)))
+export function computeKeyHash(keyType: number, publicKey: Hex): Hex {
+  const pubHash = keccak256(publicKey);
+  const packed = encodeAbiParameters([{ type: 'uint8' }, { type: 'bytes32' }], [keyType, pubHash]);
+  return keccak256(packed);
+}
+
 // Compute bytes32 keyHash for External keyType (=3)
 export function computeExternalKeyHash(multisig: Hex, salt12: Hex): Hex {
-  const pub = externalPublicKey(multisig, salt12);
-  const pubHash = keccak256(pub);
-  const packed = encodeAbiParameters([{ type: 'uint8' }, { type: 'bytes32' }], [3, pubHash]);
-  return keccak256(packed);
+  return computeKeyHash(3, externalPublicKey(multisig, salt12));
 }
 
 // Encode `execute(mode, abi.encode(calls))` where calls[0] = this.authorize(Key)
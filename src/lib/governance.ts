@@ -0,0 +1,114 @@
+import { AbiFunction, Hex, decodeFunctionData, encodeFunctionData } from 'viem';
+import { abi as multiSigAbi } from '../../abis/MultisigSignerAbi.json';
+
+export type MultisigConfig = { threshold: number; owners: Hex[] };
+
+const GOVERNANCE_FNS = ['addOwner', 'removeOwner', 'setThreshold'] as const;
+type GovernanceFn = (typeof GOVERNANCE_FNS)[number];
+
+const fragment = (name: GovernanceFn) =>
+  (multiSigAbi as AbiFunction[]).find((i) => i.type === 'function' && i.name === name) as AbiFunction;
+
+const governanceAbi = GOVERNANCE_FNS.map(fragment);
+
+const eq = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Builds the MultisigSigner calls that move a config from `current` to `next`
+ *
+ * Order keeps every intermediate state valid: owners are added first, the threshold is
+ * lowered before owners are removed, and raised only after removals.
+ *
+ * @param multisig MultisigSigner address
+ * @param externalKeyHash The multisig policy keyHash on the account
+ * @param current The on-chain config
+ * @param next The desired config
+ * @returns Calls (with ABI fragments attached for display) to include in an intent
+ */
+export function buildGovernanceCalls(
+  multisig: Hex,
+  externalKeyHash: Hex,
+  current: MultisigConfig,
+  next: MultisigConfig,
+) {
+  const call = (name: GovernanceFn, args: readonly unknown[]) => {
+    const abi = fragment(name);
+    return { to: multisig, value: '0', data: encodeFunctionData({ abi: [abi], functionName: name, args }), abi };
+  };
+
+  const added = next.owners.filter((o) => !current.owners.some((c) => eq(c, o)));
+  const removed = current.owners.filter((o) => !next.owners.some((n) => eq(n, o)));
+
+  const calls = added.map((o) => call('addOwner', [externalKeyHash, o]));
+  if (next.threshold < current.threshold) calls.push(call('setThreshold', [externalKeyHash, BigInt(next.threshold)]));
+  calls.push(...removed.map((o) => call('removeOwner', [externalKeyHash, o])));
+  if (next.threshold > current.threshold) calls.push(call('setThreshold', [externalKeyHash, BigInt(next.threshold)]));
+  return calls;
+}
+
+/**
+ * Replays the governance calls of an intent against a config
+ *
+ * Calls to other targets, other keyHashes or other functions are ignored.
+ *
+ * @param multisig MultisigSigner address
+ * @param externalKeyHash The multisig policy keyHash of the intent
+ * @param config The config before the intent executes
+ * @param calls The intent calls
+ * @returns The resulting config, whether any governance call was found, and the first
+ *          problem that would make the MultisigSigner revert (if any)
+ */
+export function applyGovernanceCalls(
+  multisig: Hex,
+  externalKeyHash: Hex,
+  config: MultisigConfig,
+  calls: { to: Hex; data: Hex }[],
+) {
+  let { threshold, owners } = config;
+  let touched = false;
+  let error: string | undefined;
+
+  for (const [i, c] of calls.entries()) {
+    if (!eq(c.to, multisig) || c.data.length < 10) continue;
+    let decoded;
+    try {
+      decoded = decodeFunctionData({ abi: governanceAbi, data: c.data });
+    } catch {
+      continue;
+    }
+    const args = decoded.args as readonly [Hex, Hex | bigint];
+    if (!eq(args[0], externalKeyHash)) continue;
+    touched = true;
+
+    if (decoded.functionName === 'addOwner') {
+      const owner = args[1] as Hex;
+      if (owners.some((o) => eq(o, owner))) error ??= `Call #${i + 1}: ${owner} is already an owner`;
+      else owners = [...owners, owner];
+    } else if (decoded.functionName === 'removeOwner') {
+      const owner = args[1] as Hex;
+      if (!owners.some((o) => eq(o, owner))) error ??= `Call #${i + 1}: ${owner} is not an owner`;
+      owners = owners.filter((o) => !eq(o, owner));
+    } else if (decoded.functionName === 'setThreshold') {
+      threshold = Number(args[1]);
+    }
+
+    if (threshold < 1) error ??= `Call #${i + 1}: threshold must be at least 1`;
+    if (threshold > owners.length) {
+      error ??= `Call #${i + 1}: threshold ${threshold} would exceed owner count ${owners.length}`;
+    }
+  }
+
+  return { config: { threshold, owners }, touched, error };
+}
+
+/**
+ * Owner and threshold differences between two configs
+ */
+export function diffConfig(before: MultisigConfig, after: MultisigConfig) {
+  return {
+    added: after.owners.filter((o) => !before.owners.some((b) => eq(b, o))),
+    removed: before.owners.filter((o) => !after.owners.some((a) => eq(a, o))),
+    kept: after.owners.filter((o) => before.owners.some((b) => eq(b, o))),
+    threshold: { before: before.threshold, after: after.threshold },
+  };
+}
@@ -0,0 +1,59 @@
+import { AbiFunction, Hex, encodeFunctionData } from 'viem';
+import { accountAbi } from './abi/account';
+
+/**
+ * Nonce lanes
+ *
+ * IthacaAccount nonces are 2D: the upper 192 bits are a sequence key (lane) and the lower
+ * 64 bits a per-lane sequence. Intents on different lanes never block each other.
+ */
+
+// Sent instead of a number to let the server pick a lane with no open intents
+export const AUTO_SEQ_KEY = 'auto';
+
+const SEQ_BITS = BigInt(64);
+const SEQ_MASK = (BigInt(1) << SEQ_BITS) - BigInt(1);
+
+export const MAX_SEQ_KEY = (BigInt(1) << BigInt(192)) - BigInt(1);
+
+/**
+ * Parses a uint192 sequence key from a decimal or 0x-hex string
+ *
+ * @param input User or request input
+ * @returns The key, or undefined when it is not an integer in [0, 2^192)
+ */
+export function parseSeqKey(input: string | number | bigint): bigint | undefined {
+  try {
+    const k = BigInt(typeof input === 'string' ? input.trim() : input);
+    return k >= BigInt(0) && k <= MAX_SEQ_KEY ? k : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Splits a full uint256 nonce into its lane and per-lane sequence
+ *
+ * @param nonce Nonce as returned by getNonce(seqKey)
+ * @returns { seqKey, sequence }
+ */
+export const splitNonce = (nonce: bigint | string) => {
+  const n = BigInt(nonce);
+  return { seqKey: n >> SEQ_BITS, sequence: n & SEQ_MASK };
+};
+
+/**
+ * Builds the self-call that burns a signed intent's nonce so its digest can never execute
+ *
+ * The call must run on a different lane than the nonce it invalidates: executing on the
+ * same lane would consume the nonce first and make invalidateNonce revert.
+ *
+ * @param account The IthacaAccount (the call targets itself)
+ * @param nonce Full nonce of the intent being cancelled
+ * @returns A call ready for an intent (value 0, with the ABI fragment for display)
+ */
+export function invalidateNonceCall(account: Hex, nonce: bigint) {
+  const abi = accountAbi.find((i) => i.type === 'function' && i.name === 'invalidateNonce') as AbiFunction;
+  const data = encodeFunctionData({ abi: accountAbi, functionName: 'invalidateNonce', args: [nonce] });
+  return { to: account, value: BigInt(0), data, abi };
+}
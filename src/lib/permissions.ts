@@ -1,8 +1,38 @@
-import { Hex, encodeAbiParameters, encodeFunctionData } from 'viem';
+import { Abi, Hex, encodeAbiParameters, encodeFunctionData, AbiFunction } from 'viem';
 import { MODE_SINGLE_NO_OPDATA, MODE_SINGLE_WITH_OPDATA } from '@/app/api/_lib/viem';
 
 export const EMPTY_CALLDATA_FN_SEL = '0xe0e0e0e0' as Hex;
 export const ANY_TARGET = '0x3232323232323232323232323232323232323232' as Hex; // 0x32 repeated (see GuardedExecutor)
+export const ANY_FN_SEL = '0x32323232' as Hex; // 0x32 repeated (see GuardedExecutor)
+export const NATIVE_TOKEN = '0x0000000000000000000000000000000000000000' as Hex;
+
+// GuardedExecutor.SpendPeriod, in enum order
+export const SPEND_PERIODS = ['Minute', 'Hour', 'Day', 'Week', 'Month', 'Year', 'Forever'] as const;
+
+// execute(MODE_SINGLE_NO_OPDATA, abi.encode(calls)) with one self-call (to=0x0 means "address(this)")
+function encodeSelfCallExecute(account: Hex, accountAbi: Abi, selfCallData: Hex): { to: Hex; data: Hex } {
+  const callsEncoded = encodeAbiParameters(
+    [
+      {
+        type: 'tuple[]',
+        components: [
+          { name: 'to', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'data', type: 'bytes' },
+        ],
+      },
+    ],
+    [[{ to: '0x0000000000000000000000000000000000000000', value: BigInt(0), data: selfCallData }]],
+  );
+
+  const data = encodeFunctionData({
+    abi: accountAbi,
+    functionName: 'execute',
+    args: [MODE_SINGLE_NO_OPDATA, callsEncoded],
+  });
+
+  return { to: account, data };
+}
 
 // Encodes execute(mode, abi.encode(calls)) where calls[0] = this.setCanExecute(keyHash, target, fnSel, can)
 export function encodeSetCanExecuteExecute({
@@ -18,7 +48,7 @@ export function encodeSetCanExecuteExecute({
   target: Hex;
   fnSel: Hex; // bytes4
   can: boolean;
-  accountAbi: any;
+  accountAbi: Abi;
 }): { to: Hex; data: Hex } {
   // calldata for setCanExecute(bytes32,address,bytes4,bool)
   const setData = encodeFunctionData({
@@ -27,28 +57,7 @@ export function encodeSetCanExecuteExecute({
     args: [keyHash, target, fnSel, can],
   });
 
-  // Calls[]: a single self-call; using to=0x0 means "address(this)"
-  const callsEncoded = encodeAbiParameters(
-    [
-      {
-        type: 'tuple[]',
-        components: [
-          { name: 'to', type: 'address' },
-          { name: 'value', type: 'uint256' },
-          { name: 'data', type: 'bytes' },
-        ],
-      },
-    ],
-    [[{ to: '0x0000000000000000000000000000000000000000', value: 0n, data: setData }]],
-  );
-
-  const data = encodeFunctionData({
-    abi: accountAbi,
-    functionName: 'execute',
-    args: [MODE_SINGLE_NO_OPDATA, callsEncoded],
-  });
-
-  return { to: account, data };
+  return encodeSelfCallExecute(account, accountAbi, setData);
 }
 
 // Encodes execute(mode, abi.encode(calls)) where calls[0] = this.setSpendLimit(keyHash, token, period, limit)
@@ -65,7 +74,7 @@ export function encodeSetSpendLimitExecute({
   token: Hex; // address(0) for native
   period: number; // 0..6 (Minute..Forever)
   limit: bigint;
-  accountAbi: any;
+  accountAbi: Abi;
 }): { to: Hex; data: Hex } {
   const setData = encodeFunctionData({
     abi: accountAbi,
@@ -73,25 +82,96 @@ export function encodeSetSpendLimitExecute({
     args: [keyHash, token, period, limit],
   });
 
-  const callsEncoded = encodeAbiParameters(
-    [
-      {
-        type: 'tuple[]',
-        components: [
-          { name: 'to', type: 'address' },
-          { name: 'value', type: 'uint256' },
-          { name: 'data', type: 'bytes' },
-        ],
-      },
-    ],
-    [[{ to: '0x0000000000000000000000000000000000000000', value: 0n, data: setData }]],
-  );
+  return encodeSelfCallExecute(account, accountAbi, setData);
+}
 
-  const data = encodeFunctionData({
+// Encodes execute(mode, abi.encode(calls)) where calls[0] = this.removeSpendLimit(keyHash, token, period)
+export function encodeRemoveSpendLimitExecute({
+  account,
+  keyHash,
+  token,
+  period,
+  accountAbi,
+}: {
+  account: Hex;
+  keyHash: Hex;
+  token: Hex; // address(0) for native
+  period: number; // 0..6 (Minute..Forever)
+  accountAbi: Abi;
+}): { to: Hex; data: Hex } {
+  const removeData = encodeFunctionData({
     abi: accountAbi,
-    functionName: 'execute',
-    args: [MODE_SINGLE_NO_OPDATA, callsEncoded],
+    functionName: 'removeSpendLimit',
+    args: [keyHash, token, period],
   });
 
-  return { to: account, data };
+  return encodeSelfCallExecute(account, accountAbi, removeData);
+}
+
+export type PermissionChange =
+  | { kind: 'canExecute'; target: Hex; fnSel: Hex; can: boolean }
+  | { kind: 'spendLimit'; token: Hex; period: number; limit: bigint }
+  | { kind: 'removeSpendLimit'; token: Hex; period: number };
+
+// The policy the batched external-key setup used to hardcode: plain ETH transfers, 1 ETH forever
+export const DEFAULT_POLICY: PermissionChange[] = [
+  { kind: 'canExecute', target: ANY_TARGET, fnSel: EMPTY_CALLDATA_FN_SEL, can: true },
+  { kind: 'spendLimit', token: NATIVE_TOKEN, period: 6, limit: BigInt('1000000000000000000') },
+];
+
+// Wallet path: one execute(...) call on the account per change, for sendCalls
+export function encodePermissionChangeExecute(
+  change: PermissionChange,
+  { account, keyHash, accountAbi }: { account: Hex; keyHash: Hex; accountAbi: Abi },
+): { to: Hex; data: Hex } {
+  if (change.kind === 'canExecute') {
+    return encodeSetCanExecuteExecute({ account, keyHash, accountAbi, ...change });
+  }
+  if (change.kind === 'spendLimit') {
+    return encodeSetSpendLimitExecute({ account, keyHash, accountAbi, ...change });
+  }
+  return encodeRemoveSpendLimitExecute({ account, keyHash, accountAbi, ...change });
+}
+
+// Intent path: the bare self-call on the account, for a multisig intent
+export function permissionChangeCall(
+  change: PermissionChange,
+  { account, keyHash, accountAbi }: { account: Hex; keyHash: Hex; accountAbi: Abi },
+) {
+  const [functionName, args] =
+    change.kind === 'canExecute'
+      ? ['setCanExecute', [keyHash, change.target, change.fnSel, change.can]]
+      : change.kind === 'spendLimit'
+        ? ['setSpendLimit', [keyHash, change.token, change.period, change.limit]]
+        : ['removeSpendLimit', [keyHash, change.token, change.period]];
+  const abi = (accountAbi as AbiFunction[]).find((i) => i.type === 'function' && i.name === functionName);
+  return {
+    to: account,
+    value: '0',
+    data: encodeFunctionData({ abi: accountAbi, functionName, args }),
+    abi,
+  };
+}
+
+// Display helpers that spell out the GuardedExecutor sentinels
+export const describeTarget = (t: Hex) => (t.toLowerCase() === ANY_TARGET ? 'any target' : t);
+export const describeToken = (t: Hex) => (t.toLowerCase() === NATIVE_TOKEN ? 'native ETH' : t);
+export const describeSelector = (s: Hex) =>
+  s.toLowerCase() === ANY_FN_SEL ? 'any function' : s.toLowerCase() === EMPTY_CALLDATA_FN_SEL ? 'empty calldata' : s;
+
+// Human-readable description of a change, e.g. "allow any target · empty calldata"
+export function describePermissionChange(change: PermissionChange) {
+  if (change.kind === 'canExecute') {
+    return `${change.can ? 'allow' : 'revoke'} ${describeTarget(change.target)} · ${describeSelector(change.fnSel)}`;
+  }
+  if (change.kind === 'spendLimit') {
+    return `limit ${describeToken(change.token)} to ${change.limit.toString()} per ${SPEND_PERIODS[change.period]}`;
+  }
+  return `remove ${describeToken(change.token)} ${SPEND_PERIODS[change.period]} limit`;
+}
+
+// Unpacks a canExecutePackedInfos entry: target in the high 20 bytes, selector in the low 4
+export function decodePackedCanExecute(packed: Hex): { target: Hex; fnSel: Hex } {
+  const hex = packed.slice(2).padStart(64, '0');
+  return { target: `0x${hex.slice(0, 40)}` as Hex, fnSel: `0x${hex.slice(56)}` as Hex };
 }
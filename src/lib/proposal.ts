@@ -0,0 +1,63 @@
+import { Hex, concat, keccak256, numberToHex, toHex } from 'viem';
+
+// Proof that the proposer of an intent holds a key of the account (see POST /api/intents)
+export type ProposalAuth = {
+  challenge: Hex;              // from POST /api/intents/challenge, single use
+  wrappedSignature: Hex;       // Porto-wrapped passkey signature over proposalDigest(challenge)
+  publicKey?: Hex;             // the passkey's x ‖ y, so the server can verify it locally
+};
+
+const PROPOSAL_DOMAIN = toHex('porto-multisig proposal:');
+
+/**
+ * What the proposer signs for a challenge
+ *
+ * Prefixed so that a challenge can never double as an intent digest.
+ *
+ * @param challenge The server challenge
+ * @returns keccak256(domain ‖ challenge)
+ */
+export const proposalDigest = (challenge: Hex) => keccak256(concat([PROPOSAL_DOMAIN, challenge]));
+
+/**
+ * Public key bytes of a saved passkey, as the account stores them
+ *
+ * @param publicKey The credential's public key ({ x, y } as decimal strings or bigints)
+ * @returns x ‖ y, 32 bytes each
+ */
+export const passkeyPublicKey = (publicKey: { x: string | bigint; y: string | bigint }): Hex =>
+  concat([numberToHex(BigInt(publicKey.x), { size: 32 }), numberToHex(BigInt(publicKey.y), { size: 32 })]);
+
+/**
+ * Fetches a challenge and signs it with the passkey saved on the main page
+ *
+ * @param account Account the intent is proposed for
+ * @param chainId Chain the intent is proposed on
+ * @returns The `proposal` field for POST /api/intents
+ */
+export async function signProposal(account: Hex, chainId: number): Promise<ProposalAuth> {
+  const saved = localStorage.getItem('portoCredential');
+  if (!saved) throw new Error('No Porto credential found. Create a passkey on the main page to propose intents.');
+  const credential = JSON.parse(saved);
+
+  const res = await fetch('/api/intents/challenge', {
+    method: 'POST',
+    body: JSON.stringify({ account, chainId }),
+    headers: { 'content-type': 'application/json' },
+  }).then((r) => r.json());
+  if (!res.challenge) throw new Error(res.error || 'Could not get a proposal challenge');
+
+  const { Key } = await import('porto');
+  const key = Key.fromWebAuthnP256({
+    credential: {
+      id: credential.id,
+      publicKey: {
+        x: BigInt(credential.publicKey.x),
+        y: BigInt(credential.publicKey.y),
+        prefix: credential.publicKey.prefix,
+      },
+    },
+  });
+  const wrappedSignature = await Key.sign(key, { address: null, payload: proposalDigest(res.challenge) });
+  return { challenge: res.challenge, wrappedSignature, publicKey: passkeyPublicKey(credential.publicKey) };
+}
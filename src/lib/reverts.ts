@@ -0,0 +1,77 @@
+import { Abi, BaseError, ContractFunctionRevertedError, Hex, decodeErrorResult, isHex } from 'viem';
+import { abi as accountJsonAbi } from '../../abis/IthacaAccount.json';
+import { abi as multiSigJsonAbi } from '../../abis/MultisigSignerAbi.json';
+import { formatArg } from './calldata';
+
+/**
+ * Every custom error an execute() can bubble up from the account or the MultisigSigner
+ * (the signature check calls into the MultisigSigner)
+ */
+export const REVERT_ABI = [...accountJsonAbi, ...multiSigJsonAbi].filter((i) => i.type === 'error') as Abi;
+
+export type DecodedRevert = {
+  name: string;                // error name, 'Error' for require strings, or 'Unknown'
+  args: string[];
+  description: string;         // what it means for this intent
+  raw?: Hex;
+};
+
+const DESCRIPTIONS: Record<string, (args: string[]) => string> = {
+  ExceededSpendLimit: ([token]) =>
+    `The multisig key's spend limit for ${token === '0x0000000000000000000000000000000000000000' ? 'native ETH' : token} would be exceeded.`,
+  UnauthorizedCall: ([, target]) => `The multisig key is not allowed to call ${target} with this selector (setCanExecute).`,
+  Unauthorized: () => 'Signature check failed: the aggregated owner signatures were not accepted.',
+  InvalidNonce: () => 'The nonce was already used or is out of order on its lane.',
+  NewSequenceMustBeLarger: () => 'invalidateNonce target is at or below the lane’s current nonce.',
+  NoSpendPermissions: () => 'The multisig key has no spend limits set, so it cannot move value.',
+  KeyDoesNotExist: () => 'The multisig external key is not authorized on this account.',
+  OpDataError: () => 'The opData (nonce + signature) could not be decoded.',
+  UnsupportedExecutionMode: () => 'The account does not support this execution mode.',
+  InvalidThreshold: () => 'The resulting threshold is zero or larger than the number of owners.',
+  OwnerNotFound: () => 'The owner being removed is not in the config.',
+  InvalidKeyHash: () => 'The owner key hash is invalid.',
+  ConfigAlreadySet: () => 'A multisig config already exists for this key.',
+  Error: ([reason]) => reason,
+};
+
+/**
+ * Decodes revert data against REVERT_ABI (plus Error(string) and Panic)
+ *
+ * @param data Revert data returned by eth_call
+ * @returns Name, formatted args and a human-readable description
+ */
+export function decodeRevertData(data: Hex): DecodedRevert {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: REVERT_ABI, data });
+    const formatted = (args ?? []).map(formatArg);
+    const describe = DESCRIPTIONS[errorName];
+    return {
+      name: errorName,
+      args: formatted,
+      description: describe ? describe(formatted) : `${errorName}(${formatted.join(', ')})`,
+      raw: data,
+    };
+  } catch {
+    return { name: 'Unknown', args: [], description: `Reverted with unrecognized data ${data.slice(0, 10)}`, raw: data };
+  }
+}
+
+/**
+ * Pulls revert data out of a viem error thrown by simulateContract / call and decodes it
+ *
+ * @param err The thrown error
+ * @returns The decoded revert, or a generic one with the error's short message
+ */
+export function decodeRevert(err: unknown): DecodedRevert {
+  if (err instanceof BaseError) {
+    const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError && reverted.raw) {
+      return decodeRevertData(reverted.raw);
+    }
+    const withData = err.walk((e) => isHex((e as { data?: unknown }).data));
+    const data = (withData as { data?: Hex } | null)?.data;
+    if (data && data !== '0x') return decodeRevertData(data);
+    return { name: 'Unknown', args: [], description: err.shortMessage };
+  }
+  return { name: 'Unknown', args: [], description: err instanceof Error ? err.message : String(err) };
+}
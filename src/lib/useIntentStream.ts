@@ -0,0 +1,53 @@
+'use client';
+import { useEffect, useRef } from 'react';
+
+// The serialized intent as GET /api/intents/[id] returns it, plus the audit log length
+export type StreamedIntent = {
+  id: string;
+  status: string;
+  signatures: unknown[];
+  threshold: number;
+  eventCount: number;
+  [field: string]: unknown;
+};
+
+/**
+ * Subscribes to GET /api/intents/[id]/stream while `id` is set
+ *
+ * EventSource reconnects on its own after network errors; the server resends the current
+ * intent on every (re)connect, so no update is lost.
+ *
+ * @param id Intent to follow (nothing is opened while undefined)
+ * @param onIntent Called with the serialized intent (plus `eventCount`) on every update
+ */
+export function useIntentStream(id: string | undefined, onIntent: (intent: StreamedIntent) => void) {
+  const handler = useRef(onIntent);
+  handler.current = onIntent;
+
+  useEffect(() => {
+    if (!id) return;
+    const source = new EventSource(`/api/intents/${id}/stream`);
+    source.addEventListener('intent', (e) => {
+      try {
+        handler.current(JSON.parse((e as MessageEvent).data));
+      } catch {
+        // ignore malformed frames; the next update carries the full state again
+      }
+    });
+    return () => source.close();
+  }, [id]);
+}
+
+/**
+ * Status label shown while signing: collecting intents read "collected k/M" or "ready"
+ *
+ * @param intent Serialized intent
+ * @returns The label used by the sign views
+ */
+export function liveStatus(intent: { status?: string; signatures?: unknown[]; threshold?: number }) {
+  const status = intent.status || 'collecting';
+  if (status !== 'collecting') return status;
+  const k = intent.signatures?.length ?? 0;
+  if (intent.threshold && k >= intent.threshold) return 'ready';
+  return k > 0 ? `collected ${k}/${intent.threshold}` : 'collecting';
+}
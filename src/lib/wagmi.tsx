@@ -1,6 +1,8 @@
 'use client';
 import { createConfig, http, WagmiProvider,createStorage } from 'wagmi';
-import { baseSepolia } from './chains';
+import type { Chain } from 'viem';
+import type { Transport } from 'wagmi';
+import { chainConfigs } from './chains';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { injected, walletConnect } from '@wagmi/connectors';
 import { porto } from 'porto/wagmi'
@@ -9,13 +11,15 @@ const queryClient = new QueryClient();
 
 // TEMP wallet: public client only (Phase 1 writes will use "account = msg.sender" as the EOA you connect with).
 // In Phase 2 we replace with Porto connector + Account.
+// Every chain in the registry is exposed to the wallet, each on its configured RPC
+const chains = chainConfigs.map((c) => c.chain) as [Chain, ...Chain[]];
+const transports = Object.fromEntries(chainConfigs.map((c) => [c.chain.id, http(c.rpcUrl)])) as Record<number, Transport>;
+
 export const config = createConfig({
-  chains: [baseSepolia],
+  chains,
   connectors: [porto()],
   storage: createStorage({ storage: typeof window !== 'undefined' ? localStorage : undefined }),
-  transports: {
-    [baseSepolia.id]: http(process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL),
-  },
+  transports,
    ssr: true,
 });
 